@@ -0,0 +1,69 @@
+/**
+ * Vite plugin - validates the public configuration and compiles it in
+ *
+ * WHAT THIS DOES:
+ * - Reads the public CONTENTSTACK_* variables (the names passed in, see
+ *   PUBLIC_ENV in vite.config.ts) with the server's rules
+ *   (readPublicConfig in server/config.ts)
+ * - Fails the build - and the dev server - with every invalid variable
+ *   listed, instead of shipping a bundle that breaks in the browser
+ * - Defines __PUBLIC_CONFIG__: the validated settings as a plain object
+ *   (read by src/api/config.ts)
+ * - Writes them into the client build (.vite/public-config.json): the
+ *   production server refuses to start when its own public settings
+ *   differ (see comparePublicConfig in server/config.ts)
+ *
+ * WHY AT BUILD TIME?
+ * - The values are compiled into the client anyway; checking them here
+ *   keeps the parsing (and its error messages) out of the browser bundle
+ *
+ * PINNED MODES:
+ * - A Vite mode can come with fixed values (e.g., mode "test" - see
+ *   TEST_PUBLIC_ENV in vite.config.ts): Vitest and `vite build --mode test`
+ *   then compile the same settings whatever .env or the shell holds
+ */
+
+import type { Plugin } from "vite";
+import { readPublicConfig, type ConfigEnv, type PublicConfig } from "../server/config";
+
+/**
+ * Create the Vite plugin
+ *
+ * @param names - Variables the client may see (everything else is ignored)
+ * @param pinned - Values per Vite mode, used instead of env (e.g., { test: {...} })
+ * @param env - Where the values come from in other modes (defaults to process.env)
+ */
+export function publicConfig(
+  names: string[],
+  pinned: Record<string, ConfigEnv> = {},
+  env: ConfigEnv = process.env
+): Plugin {
+  let compiled: PublicConfig | undefined;
+  let ssrBuild = false;
+
+  return {
+    name: "fragment-public-config",
+    config(_userConfig, { mode, isSsrBuild }) {
+      const source = pinned[mode] ?? env;
+      ssrBuild = !!isSsrBuild;
+
+      // The API key isn't required here: whether content needs one depends
+      // on the provider, chosen when the server starts - loadConfig checks it
+      // then, and comparePublicConfig makes sure the build has the same key
+      compiled = readPublicConfig(Object.fromEntries(names.map((name) => [name, source[name]])), {
+        requireApiKey: false,
+      });
+      return { define: { __PUBLIC_CONFIG__: JSON.stringify(compiled) } };
+    },
+    generateBundle() {
+      // Client build only (next to Vite's manifest - the SSR bundle reads
+      // the server's configuration instead)
+      if (ssrBuild || !compiled) return;
+      this.emitFile({
+        type: "asset",
+        fileName: ".vite/public-config.json",
+        source: JSON.stringify(compiled, null, 2),
+      });
+    },
+  };
+}
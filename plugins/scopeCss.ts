@@ -0,0 +1,90 @@
+/**
+ * Vite plugin - scopes every generated CSS rule under the fragment root
+ *
+ * WHAT THIS DOES:
+ * - Rewrites the CSS files of the client build (Tailwind output included)
+ * - ".prose h1" → "[data-fragment-scope] .prose h1"
+ * - ":root, :host" / "html" / "body" → "[data-fragment-scope]"
+ *   (theme variables and base styles land on the fragment root instead of
+ *   the host page's <html>)
+ *
+ * WHY?
+ * - Fragment CSS is linked into the host page, so unscoped rules (Tailwind
+ *   preflight, typography) restyle the host's own markup
+ * - The extra attribute selector also raises specificity, so most host
+ *   rules no longer override fragment styles
+ *
+ * WHEN TO USE:
+ * - Fallback for hosts that can't use shadow DOM isolation
+ *   (?isolation=shadow, see server/fragment.ts)
+ * - Enabled at build time: FRAGMENT_CSS_SCOPE=true npm run build
+ *
+ * NOTE: Rules inside @keyframes and nested rules (already under a scoped
+ * parent) are left alone. @font-face and @property are global by nature.
+ */
+
+import postcss, { type AtRule, type Plugin as PostcssPlugin } from "postcss";
+import type { Plugin } from "vite";
+
+/**
+ * Selectors that address the document itself - replaced by the scope
+ * (":host-context" etc. don't match thanks to the lookahead)
+ */
+const DOCUMENT_SELECTOR = /^(:root|:host|html|body)(?![\w-])/;
+
+/**
+ * Scope one selector
+ *
+ * EXAMPLE (scope = "[data-fragment-scope]"):
+ * - ".btn:hover" → "[data-fragment-scope] .btn:hover"
+ * - ":root" → "[data-fragment-scope]"
+ * - "html.dark .card" → "[data-fragment-scope].dark .card"
+ */
+function scopeSelector(selector: string, scope: string): string {
+  const trimmed = selector.trim();
+  if (trimmed.startsWith(scope)) return trimmed;
+  if (DOCUMENT_SELECTOR.test(trimmed)) return trimmed.replace(DOCUMENT_SELECTOR, scope);
+  return `${scope} ${trimmed}`;
+}
+
+/**
+ * PostCSS plugin that prefixes every top-level rule's selectors
+ */
+function scopeRules(scope: string): PostcssPlugin {
+  return {
+    postcssPlugin: "fragment-scope-rules",
+    Once(root) {
+      root.walkRules((rule) => {
+        const parent = rule.parent;
+        if (parent?.type === "rule") return;
+        if (parent?.type === "atrule" && /keyframes$/i.test((parent as AtRule).name)) return;
+
+        // ":root, :host" both become the scope - keep it once
+        rule.selectors = [...new Set(rule.selectors.map((selector) => scopeSelector(selector, scope)))];
+      });
+    },
+  };
+}
+
+/**
+ * Create the Vite plugin
+ *
+ * @param scope - Selector every rule is scoped under (e.g., "[data-fragment-scope]")
+ */
+export function scopeCss(scope: string): Plugin {
+  return {
+    name: "fragment-scope-css",
+    apply: "build",
+    // Runs on the final CSS files, after Tailwind and minification
+    async generateBundle(_options, bundle) {
+      for (const file of Object.values(bundle)) {
+        if (file.type !== "asset" || !file.fileName.endsWith(".css")) continue;
+
+        const result = await postcss([scopeRules(scope)]).process(String(file.source), {
+          from: file.fileName,
+        });
+        file.source = result.css;
+      }
+    },
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * Content API - the browser's way to fetch content (GET /api/content)
+ *
+ * WHAT THIS DOES:
+ * - Returns the entry a URL path routes to, as JSON
+ * - Uses the same fetch as the fragment route (fetchRouteContent, CMS
+ *   "404 page", alternates), but renders nothing
+ * - Caches the content in its own cache, keyed like the fragment cache
+ *   (locale + slug) and purged by the same webhook
+ * - Lets the browser navigate and refresh live preview without any
+ *   Contentstack token (see src/api/contentApi.ts)
+ *
+ * QUERY PARAMETERS:
+ * - slug: URL path, with or without locale prefix (required, e.g., "/about")
+ * - locale: Locale to use when the slug has no prefix (the X-Fragment-Locale
+ *   header does the same; Accept-Language and the default locale come next)
+ * - live_preview, content_type_uid, entry_uid, preview_timestamp, release_id:
+ *   Live preview session - drafts are fetched with the server's preview
+ *   token (only when preview is enabled, see server/preview.ts) and never cached
+ *
+ * EXAMPLE:
+ * GET /api/content?slug=/fr-fr/about
+ * → 200 { "slug": "/about", "locale": "fr-fr", "status": 200, "content": { "uid": "blt123", ... }, "alternates": [...] }
+ */
+
+import type { RequestHandler } from "express";
+import { collectUids, createETag, getSlugFromUrl, isContentUnavailableError } from "./utils.js";
+import { getCacheControl, getCacheKey, getSlugTag, type CacheStatus, type FragmentCache } from "./cache.js";
+import { getPreviewQuery } from "./preview.js";
+import { fetchPageContent } from "./render.js";
+import type { ContentResponse, PageContent, SSRModule } from "./types.js";
+
+/**
+ * Options for the content API handler
+ * - loadSSRModule: Loads the entry-server module (dev: through Vite)
+ * - cache: Content cache (optional - without one, or with caching off as
+ *   in dev, every request is fetched)
+ * - previewEnabled: Whether live preview parameters are honored (see
+ *   isPreviewEnabled in server/preview.ts)
+ */
+export interface ContentApiOptions {
+  loadSSRModule: () => Promise<SSRModule>;
+  cache?: FragmentCache<PageContent>;
+  previewEnabled?: boolean;
+}
+
+/**
+ * Create the GET /api/content handler
+ *
+ * RESPONSES:
+ * - 200 / 404: ContentResponse (404: no entry - content is the CMS "404 page" or null)
+ * - 304: If-None-Match still matches (200 only)
+ * - 400 { status, error }: Missing or invalid slug
+ * - 503 { status, error }: Contentstack unavailable (with Retry-After)
+ * - 500 { status, error }: Anything else
+ *
+ * HEADERS: Same caching headers as the fragment route (ETag, Cache-Control,
+ * Surrogate-Key, X-Cache, Content-Language); preview responses are no-store.
+ * Vary lists the locale headers - the other inputs (slug, locale, preview
+ * parameters) are in the URL.
+ */
+export function createContentApiHandler({
+  loadSSRModule,
+  cache,
+  previewEnabled = false,
+}: ContentApiOptions): RequestHandler {
+  return async (req, res) => {
+    const slugParam = req.query.slug;
+    if (typeof slugParam !== "string" || !slugParam.startsWith("/") || slugParam.startsWith("//")) {
+      res.status(400).set("Cache-Control", "no-store").json({ status: 400, error: "Missing or invalid slug" });
+      return;
+    }
+
+    try {
+      const ssrModule = await loadSSRModule();
+      const { locale, pathname: slug } = ssrModule.resolveLocale(getSlugFromUrl(slugParam), {
+        requested: typeof req.query.locale === "string" ? req.query.locale : req.get("X-Fragment-Locale"),
+        acceptLanguage: req.get("Accept-Language"),
+      });
+      const preview = getPreviewQuery(req, previewEnabled);
+
+      // Drafts are fetched for this request only; everything else goes
+      // through the cache (the resolved locale covers every locale input)
+      const { value: page, status: cacheStatus }: { value: PageContent; status: CacheStatus } =
+        preview || !cache
+          ? { value: await fetchPageContent(ssrModule, slug, locale, preview), status: "BYPASS" }
+          : await cache.get(getCacheKey(slug, locale), () => fetchPageContent(ssrModule, slug, locale));
+
+      const response: ContentResponse = {
+        slug: page.slug,
+        locale: page.locale,
+        status: page.status,
+        content: page.content,
+        alternates: page.alternates,
+      };
+      const body = JSON.stringify(response);
+
+      res.status(page.status).set({
+        "Content-Type": "application/json; charset=utf-8",
+        ETag: createETag(body),
+        "Cache-Control": preview ? "no-store" : cache ? getCacheControl(cache.options) : "no-cache",
+        "Surrogate-Key": ["page", getSlugTag(page.slug), ...collectUids(page.content)].join(" "),
+        Vary: "X-Fragment-Locale, Accept-Language",
+        "Content-Language": page.locale,
+        "X-Cache": cacheStatus,
+      });
+
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+      res.send(body);
+    } catch (error) {
+      if (isContentUnavailableError(error)) {
+        console.error("Content unavailable:", error);
+        res.status(503).set({ "Retry-After": String(error.retryAfter), "Cache-Control": "no-store" });
+        res.json({ status: 503, error: "Service Unavailable" });
+        return;
+      }
+
+      console.error("Content API Error:", error);
+      res.status(500).set("Cache-Control", "no-store").json({ status: 500, error: "Internal Server Error" });
+    }
+  };
+}
@@ -0,0 +1,385 @@
+/**
+ * Fragment server app - the request pipeline of both entry points
+ *
+ * WHAT THIS DOES:
+ * - Builds the Express app: assets, health checks, webhooks, content API
+ *   and the fragment route
+ * - server/dev.ts and server/index.ts only differ in what they pass in:
+ *   where the SSR module comes from (renderer) and how the client is
+ *   served and linked (assets - Vite with HMR, or the client build)
+ * - Tests boot the production app in-process (see test/helpers.ts)
+ *
+ * CONFIGURATION:
+ * - Passed in, already validated (see loadConfig in server/config.ts) -
+ *   nothing here reads the environment
+ * - Each app has its own fragment cache
+ */
+
+import express, { type Express, type Request, type Response } from "express";
+import { collectUids, createETag, getSlugFromUrl, isContentUnavailableError } from "./utils.js";
+import {
+  allowCrossOrigin,
+  createEnvelope,
+  createFragmentId,
+  getCspNonce,
+  getFragmentUrl,
+  getIsolationMode,
+  getLocaleHints,
+  getRequestedFragmentId,
+  renderAlternatesHeader,
+  renderFragment,
+  wantsJson,
+} from "./fragment.js";
+import { renderAssetTags, splitShadowStyles } from "./assets.js";
+import { FragmentCache, getCacheControl, getCacheKey, getSlugTag } from "./cache.js";
+import type { ServerConfig } from "./config.js";
+import { createHealthRouter, type BuildInfo } from "./health.js";
+import { createWebhookHandler } from "./webhooks.js";
+import { createContentApiHandler } from "./api.js";
+import { getPreviewQuery, isPreviewEnabled } from "./preview.js";
+import { renderPage, streamPage, wantsStream } from "./render.js";
+import type { FragmentAssetSource, FragmentRenderer, PageContent, RenderedPage, ServerMode } from "./types.js";
+
+/**
+ * Options for the fragment server app
+ * - mode: Reported by GET /health; development also turns the fragment
+ *   cache off, so source and content edits show up on the next request
+ * - renderer: Loads the SSR module (see FragmentRenderer)
+ * - assets: Serves and links the client (see FragmentAssetSource)
+ * - config: Runtime configuration (see ServerConfig)
+ * - build: Version info reported by the health checks (see readBuildInfo)
+ * - signal: Aborted when a graceful shutdown starts - readiness turns 503
+ *   (see server/shutdown.ts)
+ */
+export interface FragmentAppOptions {
+  mode: ServerMode;
+  renderer: FragmentRenderer;
+  assets: FragmentAssetSource;
+  config: ServerConfig;
+  build: BuildInfo;
+  signal?: AbortSignal;
+}
+
+/**
+ * Create the fragment server app
+ *
+ * @param options - Mode, SSR module loader, asset source, configuration and build info (see FragmentAppOptions)
+ * @returns The Express app (not listening yet)
+ *
+ * EXAMPLE:
+ * createFragmentApp({
+ *   mode: "production",
+ *   renderer: { load: () => import("./entry-server.js") },
+ *   assets: createBuildAssets("dist/client"),
+ *   config: loadConfig(),
+ *   build: readBuildInfo("."),
+ * }).listen(3000);
+ */
+export function createFragmentApp({ mode, renderer, assets, config, build, signal }: FragmentAppOptions): Express {
+  /**
+   * How initial content is embedded (FRAGMENT_STATE_FORMAT)
+   * - "script" (default): inline script
+   * - "json": <script type="application/json"> data block (no inline JS)
+   */
+  const { stateFormat } = config;
+
+  /**
+   * Default style isolation (FRAGMENT_ISOLATION), overridable per request
+   * with X-Fragment-Isolation or ?isolation= (see server/fragment.ts)
+   */
+  const defaultIsolation = config.isolation;
+
+  // Live preview parameters are honored (CONTENTSTACK_PREVIEW + preview token)
+  const previewEnabled = isPreviewEnabled(config);
+
+  /**
+   * Log a request error
+   * - Dev rewrites the stack to point at source files (see FragmentRenderer)
+   */
+  function logError(label: string, error: unknown): void {
+    if (error instanceof Error) renderer.fixStacktrace?.(error);
+    console.error(label, error);
+  }
+
+  /**
+   * Rendered-fragment cache (keyed by locale + slug, see getCacheKey)
+   *
+   * CONFIGURATION (see server/cache.ts):
+   * - FRAGMENT_CACHE_TTL: Seconds a render stays fresh (0 disables caching)
+   * - FRAGMENT_CACHE_SWR: Seconds a stale render may be served while refreshing
+   * - FRAGMENT_CACHE_MAX_ENTRIES: Maximum number of cached pages
+   *
+   * Each entry is tagged with every uid in its content (page, references,
+   * assets) so a webhook for any of them purges the fragment, and with its
+   * slug so a publish purges that slug in every locale.
+   */
+  const cacheOptions = mode === "development" ? { ...config.cache, ttl: 0 } : config.cache;
+  const getPageTags = (page: PageContent) => [...collectUids(page.content), getSlugTag(page.slug)];
+  const fragmentCache = new FragmentCache<RenderedPage>(cacheOptions, getPageTags);
+
+  /**
+   * Content API cache - the same content without markup (see server/api.ts),
+   * same settings, keys and tags as the fragment cache
+   */
+  const contentCache = new FragmentCache<PageContent>(cacheOptions, getPageTags);
+
+  const app = express();
+
+  /**
+   * <content-fragment> custom element (see src/content-fragment.ts)
+   *
+   * - Stable URL for host pages: redirects to the element's script (the
+   *   hashed build file, cached forever; the source file in dev) - the
+   *   redirect itself is cached briefly
+   * - Registered before the asset middleware, which would otherwise
+   *   answer it in dev
+   */
+  app.get("/content-fragment.js", allowCrossOrigin, (_req, res) => {
+    if (!assets.contentFragmentUrl) {
+      res.status(404).end();
+      return;
+    }
+    res.set("Cache-Control", "public, max-age=300").redirect(302, assets.contentFragmentUrl);
+  });
+
+  // Client assets: Vite (compiled on request, HMR) or the client build
+  // (see createBuildAssets in server/assets.ts)
+  app.use(assets.middleware);
+
+  /**
+   * Health checks (see server/health.ts)
+   * - GET /health: Mode, preview mode, non-secret configuration, build info
+   * - GET /health/live: Liveness
+   * - GET /health/ready: Readiness - SSR module, client build, content provider
+   */
+  app.use(createHealthRouter({ mode, config, renderer, assets, build, signal }));
+
+  /**
+   * Contentstack webhook - purges cached fragments on publish/unpublish/delete
+   *
+   * - Secret: CONTENTSTACK_WEBHOOK_SECRET (sent as X-Webhook-Secret or basic auth)
+   * - Emits purgeEvents "purge" (see server/webhooks.ts) for CDN purge hooks
+   */
+  app.post(
+    "/webhooks/contentstack",
+    express.json({ limit: "1mb" }),
+    createWebhookHandler({
+      secret: config.contentstack.webhookSecret,
+      caches: [fragmentCache, contentCache],
+    })
+  );
+
+  /**
+   * Content API - JSON content for client navigation and live preview
+   *
+   * - The browser fetches content here instead of from Contentstack, so no
+   *   token ever reaches it (see server/api.ts)
+   * - Fetches content without rendering it (own cache, see contentCache)
+   */
+  app.get(
+    "/api/content",
+    allowCrossOrigin,
+    createContentApiHandler({ loadSSRModule: renderer.load, cache: contentCache, previewEnabled })
+  );
+
+  /**
+   * Catch-all route - handles all page requests
+   *
+   * FLOW:
+   * 1. Resolve the locale: URL prefix ("/fr-fr/about"), X-Fragment-Locale,
+   *    Accept-Language, default (see src/api/locales.ts)
+   * 2. Look up the rendered page in the fragment cache (keyed by locale + slug)
+   * 3. On a miss: fetch content (falling back along the locale's chain),
+   *    render React to HTML (200 when found, 404 + CMS "404 page" when not)
+   *    and look up the entry's URL in the other locales
+   * 4. Collect assets (client build: from the manifest; dev: Vite + HMR scripts)
+   * 5. Assemble the fragment (unique root id + scoped content) with asset
+   *    tags, or a JSON envelope (?format=json / Accept: application/json)
+   * 6. Set ETag / Cache-Control / Surrogate-Key / Content-Language / Link
+   *    (hreflang alternates) and answer 304 when the client's If-None-Match
+   *    still matches
+   *
+   * CORS:
+   * - Any origin may read fragments (the <content-fragment> element fetches
+   *   JSON envelopes from the host page)
+   *
+   * CSP (X-CSP-Nonce header):
+   * - The host's nonce is stamped on every script/link tag we emit
+   *
+   * STYLE ISOLATION (?isolation=shadow or X-Fragment-Isolation: shadow):
+   * - Markup and stylesheets are rendered inside a declarative shadow root
+   *
+   * STREAMING (?stream=true or X-Fragment-Stream: true):
+   * - Skips the cache and streams the render (see server/render.ts)
+   *
+   * LIVE PREVIEW (?live_preview=<hash>&content_type_uid=...&entry_uid=...):
+   * - With CONTENTSTACK_PREVIEW=true, renders the draft with editable tags
+   *   (see server/preview.ts) - never cached (X-Cache: BYPASS, no-store)
+   * - &preview_timestamp=<ISO date> / &release_id=<uid>: Content as it will
+   *   be at that date or in that release, with a preview banner (Timeline)
+   *
+   * ERRORS (same in dev - the stack trace goes to the log, not the host):
+   * - Contentstack unavailable → 503 with Retry-After
+   * - Anything else (render errors) → 500
+   */
+  app.get(["/*"], allowCrossOrigin, async (req: Request, res: Response) => {
+    try {
+      const ssrModule = await renderer.load();
+
+      // "/fr-fr/about" → fr-fr + "/about" (headers pick the locale of unprefixed URLs)
+      const { locale, pathname: slug } = ssrModule.resolveLocale(
+        getSlugFromUrl(req.originalUrl),
+        getLocaleHints(req)
+      );
+      const cacheKey = getCacheKey(slug, locale);
+
+      // Cached "fetch + render" result for this slug and locale
+      // (fresh → served directly, stale → served and refreshed in background)
+      const id = createFragmentId(cacheKey, getRequestedFragmentId(req));
+      const url = getFragmentUrl(req);
+      const format = wantsJson(req) ? "json" : "html";
+      const nonce = getCspNonce(req);
+      const isolation = getIsolationMode(req, defaultIsolation);
+      const preview = getPreviewQuery(req, previewEnabled);
+
+      // Streaming mode: shell first, content streams in (no cache, always 200)
+      // (JSON envelopes are always buffered; so is shadow isolation, because
+      // React's streaming scripts can't reach into a shadow root)
+      if (format === "html" && isolation === "none" && wantsStream(req)) {
+        const tail = (modules: string[]) =>
+          renderAssetTags(assets.getEntryAssets(modules, { shadow: false }), { nonce });
+        await streamPage(ssrModule, res, { slug, locale, preview, id, url, tail, nonce, stateFormat });
+        return;
+      }
+
+      // Live preview: the draft is rendered for this request only
+      const { value: page, status: cacheStatus } = preview
+        ? { value: await renderPage(ssrModule, slug, locale, preview), status: "BYPASS" as const }
+        : await fragmentCache.get(cacheKey, async () => {
+            // Fetch content from Contentstack and render React to HTML
+            // (404 pages are cached too - a publish webhook evicts them)
+            return renderPage(ssrModule, slug, locale);
+          });
+
+      // Assets for the client entry (CSS, modulepreload, main JS, plus preload
+      // hints for lazy chunks this page renders)
+      // Same data for both formats: HTML tags or JSON envelope fields
+      // (in shadow mode the stylesheets move inside the shadow root)
+      const entryAssets = assets.getEntryAssets(page.modules, { shadow: isolation === "shadow" });
+      const { styles, assets: fragmentAssets } =
+        isolation === "shadow"
+          ? splitShadowStyles(entryAssets, { nonce })
+          : { styles: undefined, assets: entryAssets };
+
+      // Root element + initial content, scoped to this fragment's id
+      // (lets the host embed several fragments on one page)
+      const fragment = renderFragment({
+        id,
+        url,
+        html: page.html,
+        content: page.content,
+        locale,
+        timeline: page.timeline,
+        nonce,
+        stateFormat,
+        isolation,
+        styles,
+      });
+
+      // Drafts must not be stored anywhere (CDN, browser)
+      const cacheControl = preview ? "no-store" : getCacheControl(fragmentCache.options);
+      const surrogateKeys = ["page", getSlugTag(page.slug), ...collectUids(page.content)];
+
+      // HTML: root div + content script + asset tags
+      // JSON: envelope with separate fields for host-side assembly
+      const body =
+        format === "json"
+          ? JSON.stringify(
+              createEnvelope({
+                id,
+                url,
+                status: page.status,
+                html: fragment,
+                assets: fragmentAssets,
+                initialState: page.content,
+                locale,
+                alternates: page.alternates,
+                cache: { status: cacheStatus, cacheControl, surrogateKeys },
+              })
+            )
+          : `${fragment}\n${renderAssetTags(fragmentAssets, { nonce })}`;
+
+      /**
+       * Caching headers
+       * - ETag: Strong validator computed from the exact body
+       * - Cache-Control: max-age + stale-while-revalidate (mirrors the in-process cache)
+       * - Surrogate-Key: The slug (url:/about) and every entry/asset uid in the
+       *   content, so a CDN can purge the page in every locale and every
+       *   fragment built from an entry (see POST /webhooks/contentstack)
+       * - Vary: The body depends on X-Fragment-Id (root id), Accept (format),
+       *   X-CSP-Nonce (nonce attributes), X-Fragment-Isolation (shadow root),
+       *   and for unprefixed URLs on X-Fragment-Locale / Accept-Language
+       * - Content-Language / Link: The locale, and the same content in every
+       *   locale (rel="alternate" hreflang) for the host's <link> tags
+       */
+      res.set({
+        "Content-Type": format === "json" ? "application/json; charset=utf-8" : "text/html; charset=utf-8",
+        ETag: createETag(body),
+        "Cache-Control": cacheControl,
+        "Surrogate-Key": surrogateKeys.join(" "),
+        Vary: "X-Fragment-Id, Accept, X-CSP-Nonce, X-Fragment-Isolation, X-Fragment-Locale, Accept-Language",
+        "Content-Language": locale,
+        "X-Cache": cacheStatus,
+      });
+      const alternatesHeader = renderAlternatesHeader(page.alternates);
+      if (alternatesHeader) res.set("Link", alternatesHeader);
+
+      // 200, or 404 when the slug has no entry (body is the 404 page)
+      res.status(page.status);
+
+      // req.fresh compares If-None-Match with the ETag set above
+      // (only true for 2xx responses, so a 404 is always sent in full)
+      if (req.fresh) {
+        res.status(304).end();
+        return;
+      }
+
+      res.send(body);
+    } catch (error) {
+      // Streaming already sent headers - nothing left to report to the client
+      if (res.headersSent) {
+        logError("SSR Error:", error);
+        res.end();
+        return;
+      }
+
+      // CMS unreachable → 503 so the host can retry (or keep its own copy)
+      if (isContentUnavailableError(error)) {
+        logError("Content unavailable:", error);
+        res.status(503).set({ "Retry-After": String(error.retryAfter), "Cache-Control": "no-store" });
+        sendError(req, res, "Service Unavailable");
+        return;
+      }
+
+      logError("SSR Error:", error);
+      res.status(500).set("Cache-Control", "no-store");
+      sendError(req, res, "Internal Server Error");
+    }
+  });
+
+  return app;
+}
+
+/**
+ * Send an error body in the format the client asked for
+ * - JSON: { status, error } (keeps envelope consumers on one parser)
+ * - HTML: plain message
+ */
+function sendError(req: Request, res: Response, message: string): void {
+  if (wantsJson(req)) {
+    res.json({ status: res.statusCode, error: message });
+  } else {
+    res.send(message);
+  }
+}
+
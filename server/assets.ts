@@ -0,0 +1,345 @@
+/**
+ * Fragment assets - manifest traversal and tag rendering
+ *
+ * WHAT THIS DOES:
+ * - Walks Vite's manifest to find every file a fragment needs
+ * - Turns a FragmentAssets description into HTML tags
+ * - The same FragmentAssets object feeds the JSON envelope, so the HTML
+ *   and JSON formats always reference the same files
+ * - Provides the production asset source (createBuildAssets); the dev
+ *   server has its own, backed by Vite (see server/dev.ts)
+ */
+
+import express from "express";
+import { createHash } from "node:crypto";
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { allowCrossOrigin } from "./fragment.js";
+import { escapeHtml, renderNonceAttribute } from "./utils.js";
+import type { AssetLink, FragmentAssetSource, FragmentAssets, Manifest } from "./types.js";
+
+/**
+ * Subresource Integrity hashes, keyed by manifest file path
+ *
+ * EXAMPLE:
+ * { "assets/entry-client-abc123.js": "sha384-oqVuAfXRKap7fdgcCY5uykM6+R9GqQ8K..." }
+ */
+export type IntegrityMap = Record<string, string>;
+
+/**
+ * Compute SRI hashes for every script and stylesheet in the manifest
+ *
+ * WHAT THIS DOES:
+ * - Reads each built JS/CSS file once (at server startup)
+ * - Hashes it with SHA-384 (the algorithm browsers recommend for SRI)
+ *
+ * WHY?
+ * - Assets may be served from another origin (ASSET_BASE_URL / CDN)
+ * - integrity="..." makes the browser refuse a file that was modified
+ *   on the way, and strict host CSPs often require it
+ *
+ * @param manifest - Vite client manifest
+ * @param root - Client build directory (where manifest file paths start)
+ * @throws When a file listed in the manifest is missing (broken build)
+ */
+export function createIntegrityMap(manifest: Manifest, root: string): IntegrityMap {
+  const integrity: IntegrityMap = {};
+
+  for (const chunk of Object.values(manifest)) {
+    [chunk.file, ...(chunk.css ?? [])].forEach((file) => {
+      if (integrity[file] || !/\.(js|css)$/.test(file)) return;
+      const digest = createHash("sha384").update(readFileSync(resolve(root, file))).digest("base64");
+      integrity[file] = `sha384-${digest}`;
+    });
+  }
+
+  return integrity;
+}
+
+/**
+ * Options for collectAssets
+ * - buildUrl: Turns a manifest file path into a URL (relative or absolute)
+ * - modules: Manifest keys of lazily loaded modules the current page renders
+ *   (reported by the SSR render) - preloaded so they don't wait for hydration
+ * - integrity: SRI hashes to attach (see createIntegrityMap)
+ */
+export interface CollectAssetsOptions {
+  buildUrl: (file: string) => string;
+  modules?: string[];
+  integrity?: IntegrityMap;
+}
+
+/**
+ * Collect every CSS and JS asset an entry needs from the manifest
+ *
+ * WHAT THIS DOES:
+ * - Entry file → module script
+ * - Static imports, recursively → modulepreload links
+ * - CSS of the entry and of every imported chunk → stylesheets
+ * - Dynamic imports are NOT loaded up front (that's why they're dynamic),
+ *   except the ones listed in options.modules: those chunks (plus their own
+ *   static imports and CSS) get preload hints because this page renders them
+ *
+ * DE-DUPLICATION:
+ * - Every chunk is visited once, every file is emitted once
+ *   (shared vendor chunks are common between entry and lazy chunks)
+ *
+ * @param manifest - Vite client manifest
+ * @param entryKey - Key in manifest (e.g., "src/entry-client.tsx")
+ * @returns Assets grouped by kind
+ *
+ * EXAMPLE:
+ * entry-client → imports [vendor] → css [vendor.css]
+ *              → dynamicImports [BlockComponent] (page has blocks)
+ * → css: [entry.css, vendor.css, block.css]
+ *   modulepreload: [vendor.js, block.js]
+ *   scripts: [entry.js]
+ */
+export function collectAssets(
+  manifest: Manifest,
+  entryKey: string,
+  { buildUrl, modules = [], integrity = {} }: CollectAssetsOptions
+): FragmentAssets {
+  const entry = manifest[entryKey];
+  if (!entry) throw new Error(`Entry "${entryKey}" not found in manifest`);
+
+  const css = new Set<string>();
+  const preload = new Set<string>();
+  const visited = new Set<string>();
+
+  // Depth-first walk over static imports, collecting CSS on the way
+  const visit = (key: string) => {
+    if (visited.has(key)) return;
+    visited.add(key);
+
+    const chunk = manifest[key];
+    if (!chunk) return;
+
+    chunk.css?.forEach((file) => css.add(file));
+    chunk.imports?.forEach(visit);
+
+    // The entry itself is loaded by the <script>, everything else is preloaded
+    if (key !== entryKey && chunk.file.endsWith(".js")) preload.add(chunk.file);
+  };
+
+  visit(entryKey);
+
+  // Lazy chunks this page renders - only if reachable from the entry
+  // (ignores stale or unknown keys reported by the render)
+  const dynamicImports = collectDynamicImports(manifest, visited);
+  modules.filter((key) => dynamicImports.has(key)).forEach(visit);
+
+  const link = (file: string) => ({ href: buildUrl(file), integrity: integrity[file] });
+
+  return {
+    css: [...css].map(link),
+    modulepreload: [...preload].map(link),
+    scripts: [{ type: "module", src: buildUrl(entry.file), integrity: integrity[entry.file] }],
+  };
+}
+
+/**
+ * Every dynamic import reachable from a set of chunks
+ */
+function collectDynamicImports(manifest: Manifest, keys: Iterable<string>): Set<string> {
+  const found = new Set<string>();
+  const queue = [...keys];
+  const seen = new Set(queue);
+
+  while (queue.length) {
+    const chunk = manifest[queue.shift()!];
+    [...(chunk?.imports ?? []), ...(chunk?.dynamicImports ?? [])].forEach((key) => {
+      if (chunk?.dynamicImports?.includes(key)) found.add(key);
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push(key);
+      }
+    });
+  }
+
+  return found;
+}
+
+/**
+ * Options for renderAssetTags
+ * - nonce: CSP nonce stamped on every tag (see getCspNonce in server/fragment.ts)
+ */
+export interface RenderAssetTagsOptions {
+  nonce?: string;
+}
+
+/**
+ * Generate HTML tags for CSS and JS assets
+ *
+ * ORDER:
+ * 1. <link rel="stylesheet"> - load stylesheets first
+ * 2. <link rel="modulepreload"> - preload JS dependencies
+ * 3. <script type="module"> - entry scripts
+ *
+ * ATTRIBUTES:
+ * - crossorigin on every external tag (assets may live on another origin)
+ * - integrity when the asset has an SRI hash
+ * - nonce on every tag when the host sent one
+ *
+ * @returns HTML string with one tag per line
+ */
+export function renderAssetTags(
+  { css, modulepreload, scripts }: FragmentAssets,
+  { nonce }: RenderAssetTagsOptions = {}
+): string {
+  const nonceAttribute = renderNonceAttribute(nonce);
+  const integrityAttribute = (integrity?: string) => (integrity ? ` integrity="${escapeHtml(integrity)}"` : "");
+  const link = (rel: string, { href, integrity }: AssetLink) =>
+    `<link rel="${rel}" href="${escapeHtml(href)}"${integrityAttribute(integrity)} crossorigin${nonceAttribute}>`;
+
+  return [
+    ...css.map((asset) => link("stylesheet", asset)),
+    ...modulepreload.map((asset) => link("modulepreload", asset)),
+    ...scripts.map(({ src, content, integrity }) =>
+      src
+        ? `<script type="module" src="${escapeHtml(src)}"${integrityAttribute(integrity)} crossorigin${nonceAttribute}></script>`
+        : `<script type="module"${nonceAttribute}>${content ?? ""}</script>`
+    ),
+  ].join("\n");
+}
+
+/**
+ * Split assets for shadow DOM isolation
+ *
+ * WHY?
+ * - Stylesheets linked outside a shadow root don't reach inside it, and
+ *   inside it they don't leak out - so they move into the shadow root
+ * - Scripts and preloads stay outside (they're not affected by the boundary)
+ *
+ * @returns styles: Stylesheet tags for the shadow root;
+ *   assets: The remaining assets (css emptied) for the light DOM
+ */
+export function splitShadowStyles(
+  assets: FragmentAssets,
+  options: RenderAssetTagsOptions = {}
+): { styles: string; assets: FragmentAssets } {
+  return {
+    styles: renderAssetTags({ css: assets.css, modulepreload: [], scripts: [] }, options),
+    assets: { ...assets, css: [] },
+  };
+}
+
+/**
+ * Read the Vite manifest of a client build
+ *
+ * @throws Error when the build is missing (run `npm run build` first)
+ */
+function readManifest(clientDir: string): Manifest {
+  const manifestPath = resolve(clientDir, ".vite/manifest.json");
+  try {
+    return JSON.parse(readFileSync(manifestPath, "utf-8")) as Manifest;
+  } catch (error) {
+    throw new Error(`Missing ${manifestPath} - run \`npm run build\` first`, { cause: error });
+  }
+}
+
+/**
+ * Asset source for a client build (production)
+ *
+ * WHAT THIS DOES:
+ * - Reads the manifest and hashes every script and stylesheet once, at startup
+ * - Serves dist/client/assets with aggressive caching and CORS headers
+ * - Links the entry, its CSS and preload hints from the manifest
+ * - Reports a stale build to the readiness check: the manifest on disk no
+ *   longer matches the one loaded at startup (a new build was copied over
+ *   this one - the files it links are gone), or the entry file is missing
+ *
+ * @param clientDir - Client build output (dist/client)
+ * @param assetBaseUrl - Absolute base for asset URLs, without trailing slash
+ *   (ASSET_BASE_URL, e.g., a CDN - see server/config.ts)
+ *   - If set, generates absolute URLs (e.g., https://cdn.example.com/assets/...)
+ *   - If not set, uses relative URLs (e.g., /assets/...)
+ * @throws Error when the client build is missing
+ */
+export function createBuildAssets(clientDir: string, assetBaseUrl = ""): FragmentAssetSource {
+  /**
+   * Vite manifest - maps source files to built assets
+   *
+   * WHAT IT CONTAINS:
+   * - Source file path → built asset info
+   * - Includes CSS files, JS files, and their dependencies
+   * - Used to generate <link> and <script> tags
+   *
+   * EXAMPLE:
+   * {
+   *   "src/entry-client.tsx": {
+   *     "file": "assets/entry-client-abc123.js",
+   *     "css": ["assets/entry-client-def456.css"],
+   *     "imports": ["src/App.tsx"]
+   *   }
+   * }
+   */
+  const manifest = readManifest(clientDir);
+
+  /**
+   * Subresource Integrity hashes for every built script and stylesheet
+   * - Computed once at startup (files are immutable between builds)
+   * - Emitted as integrity="sha384-..." on asset tags and in JSON envelopes
+   */
+  const integrity = createIntegrityMap(manifest, clientDir);
+
+  /**
+   * Build absolute or relative asset URL
+   *
+   * @param path - Manifest file path (e.g., "assets/file.js" or "assets/fonts/x.woff2")
+   * @returns Full URL if ASSET_BASE_URL set, otherwise relative path
+   */
+  function buildAssetUrl(path: string): string {
+    const cleanPath = path.startsWith("/") ? path : `/${path}`;
+    return assetBaseUrl ? `${assetBaseUrl}${cleanPath}` : cleanPath;
+  }
+
+  /**
+   * Serve static assets with aggressive caching and CORS headers
+   *
+   * CONFIGURATION:
+   * - maxAge: "1y" = cache for 1 year
+   * - immutable: true = files never change (they have hashes in names)
+   *
+   * WHY AGGRESSIVE CACHING?
+   * - Asset filenames include content hashes (e.g., file-abc123.js)
+   * - If content changes, filename changes → safe to cache forever
+   * - Improves performance (browser caches assets)
+   *
+   * WHY CORS HEADERS?
+   * - Assets are loaded with absolute URLs (via ASSET_BASE_URL)
+   * - Parent app may be on a different origin (e.g., Azure URL forwarding)
+   * - Browser blocks cross-origin requests without CORS headers
+   * - crossorigin attribute on <link>/<script> tags triggers CORS checks
+   * - Setting Access-Control-Allow-Origin allows cross-origin asset loading
+   *
+   * NOTE: Currently set to "*" (allow all origins) for simplicity.
+   * Can be tightened later by replacing "*" with a specific origin or
+   * making it configurable via CORS_ALLOWED_ORIGIN env var.
+   */
+  const middleware = express.Router();
+  middleware.use("/assets", allowCrossOrigin, express.static(resolve(clientDir, "assets"), { maxAge: "1y", immutable: true }));
+
+  // Always served from the fragment server itself (not ASSET_BASE_URL):
+  // the element resolves fragment paths against its own URL
+  const contentFragment = manifest["src/content-fragment.ts"];
+
+  const entryFile = manifest["src/entry-client.tsx"]?.file;
+
+  return {
+    middleware,
+    // Shadow roots link the same stylesheets (they move inside, see splitShadowStyles)
+    getEntryAssets: (modules) =>
+      collectAssets(manifest, "src/entry-client.tsx", { buildUrl: buildAssetUrl, modules, integrity }),
+    contentFragmentUrl: contentFragment ? `/${contentFragment.file}` : null,
+    check: () => {
+      const currentFile = readManifest(clientDir)["src/entry-client.tsx"]?.file;
+      if (currentFile !== entryFile) {
+        throw new Error(`Client build changed on disk (${entryFile} → ${currentFile}) - restart to serve it`);
+      }
+      if (!entryFile || !existsSync(resolve(clientDir, entryFile))) {
+        throw new Error(`Missing client entry ${entryFile ?? "src/entry-client.tsx"} in ${clientDir}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * In-process cache for rendered fragments
+ *
+ * WHAT THIS DOES:
+ * - Keeps the result of "fetch content + render" per slug and locale in memory
+ * - Serves fresh entries straight from memory (no Contentstack call, no render)
+ * - Serves stale entries while refreshing them in the background
+ *   (stale-while-revalidate), so a slow CMS never blocks a response
+ *
+ * LIFECYCLE OF AN ENTRY:
+ * - age <= ttl                      → HIT   (served as-is)
+ * - ttl < age <= ttl + swr          → STALE (served, refreshed in background)
+ * - age > ttl + swr (or not cached) → MISS  (loaded before responding)
+ *
+ * NOTE: The cache is per process. Each server instance has its own copy,
+ * so CDN caching (via the Cache-Control headers below) does the heavy lifting.
+ */
+
+/**
+ * Cache settings
+ * - ttl: Seconds an entry is considered fresh (0 disables the cache)
+ * - staleWhileRevalidate: Extra seconds a stale entry may still be served
+ * - maxEntries: Upper bound on cached pages (oldest are evicted first)
+ * - Configured with FRAGMENT_CACHE_TTL, FRAGMENT_CACHE_SWR and
+ *   FRAGMENT_CACHE_MAX_ENTRIES (see server/config.ts)
+ */
+export interface FragmentCacheOptions {
+  ttl: number;
+  staleWhileRevalidate: number;
+  maxEntries: number;
+}
+
+/** How a value was served (exposed as the X-Cache response header) */
+export type CacheStatus = "HIT" | "STALE" | "MISS" | "BYPASS";
+
+interface CacheEntry<T> {
+  value: T;
+  storedAt: number;
+  tags: Set<string>;
+}
+
+/**
+ * Build the Cache-Control header for a cacheable fragment response
+ *
+ * EXAMPLE:
+ * - { ttl: 60, staleWhileRevalidate: 300 } → "public, max-age=60, stale-while-revalidate=300"
+ * - { ttl: 0 } → "no-cache" (clients must revalidate, ETags still apply)
+ */
+export function getCacheControl({ ttl, staleWhileRevalidate }: FragmentCacheOptions): string {
+  if (ttl <= 0) return "no-cache";
+  const directives = ["public", `max-age=${ttl}`];
+  if (staleWhileRevalidate > 0) directives.push(`stale-while-revalidate=${staleWhileRevalidate}`);
+  return directives.join(", ");
+}
+
+/**
+ * Cache key for a slug in a locale
+ *
+ * EXAMPLE:
+ * - getCacheKey("/about", "fr-fr") → "fr-fr:/about"
+ */
+export function getCacheKey(slug: string, locale: string): string {
+  return `${locale}:${slug}`;
+}
+
+/**
+ * Tag carried by every cached page of a slug, whatever its locale
+ * - Lets a publish evict the slug in every locale at once (locales that
+ *   fall back to the published one show it too)
+ *
+ * EXAMPLE:
+ * - getSlugTag("/about") → "url:/about"
+ */
+export function getSlugTag(slug: string): string {
+  return `url:${slug}`;
+}
+
+export class FragmentCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+
+  /** In-flight loads, shared so concurrent requests trigger one fetch + render */
+  private readonly pending = new Map<string, Promise<T>>();
+
+  /**
+   * Bumped on every purge - a load that started before a purge must not
+   * write its (possibly outdated) result back into the cache
+   */
+  private generation = 0;
+
+  /**
+   * @param options - TTL / stale-while-revalidate / size settings
+   * @param getTags - Optional: tags for a value (e.g., every entry uid the
+   *   rendered content references), used by invalidateTag()
+   */
+  constructor(
+    readonly options: FragmentCacheOptions,
+    private readonly getTags: (value: T) => string[] = () => []
+  ) {}
+
+  /** Whether caching is turned on (ttl > 0) */
+  get enabled(): boolean {
+    return this.options.ttl > 0;
+  }
+
+  /**
+   * Get a cached value, loading it when missing or expired
+   *
+   * @param key - Cache key (see getCacheKey, e.g., "en-us:/about")
+   * @param load - Fetches content and renders it (only called when needed)
+   * @returns The value and how it was served
+   *
+   * ERRORS:
+   * - A failing load on MISS is thrown to the caller
+   * - A failing background refresh is logged; the stale value stays in place
+   */
+  async get(key: string, load: () => Promise<T>): Promise<{ value: T; status: CacheStatus }> {
+    if (!this.enabled) return { value: await load(), status: "BYPASS" };
+
+    const entry = this.entries.get(key);
+    const age = entry ? (Date.now() - entry.storedAt) / 1000 : Infinity;
+
+    if (entry && age <= this.options.ttl) {
+      return { value: entry.value, status: "HIT" };
+    }
+
+    if (entry && age <= this.options.ttl + this.options.staleWhileRevalidate) {
+      this.refresh(key, load).catch((error) => {
+        console.error(`Cache refresh failed for "${key}":`, error);
+      });
+      return { value: entry.value, status: "STALE" };
+    }
+
+    return { value: await this.refresh(key, load), status: "MISS" };
+  }
+
+  /** Remove one key (e.g., after a publish) */
+  delete(key: string): boolean {
+    this.generation++;
+    this.pending.delete(key);
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every key whose value carries a tag
+   *
+   * @param tag - Tag to purge (e.g., an entry uid)
+   * @returns The keys that were removed
+   *
+   * EXAMPLE:
+   * - "/about" renders a page that references author "blt123"
+   * - invalidateTag("blt123") removes "/about" (and any other page using it)
+   */
+  invalidateTag(tag: string): string[] {
+    const removed: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.tags.has(tag)) removed.push(key);
+    }
+    this.generation++;
+    removed.forEach((key) => this.entries.delete(key));
+    return removed;
+  }
+
+  /** Remove everything */
+  clear(): void {
+    this.generation++;
+    this.pending.clear();
+    this.entries.clear();
+  }
+
+  /** Number of cached keys */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Load a value and store it, de-duplicating concurrent loads per key
+   */
+  private refresh(key: string, load: () => Promise<T>): Promise<T> {
+    const inFlight = this.pending.get(key);
+    if (inFlight) return inFlight;
+
+    const generation = this.generation;
+    const promise = load()
+      .then((value) => {
+        if (generation === this.generation) this.set(key, value);
+        return value;
+      })
+      .finally(() => {
+        if (this.pending.get(key) === promise) this.pending.delete(key);
+      });
+
+    this.pending.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Store a value (re-inserting moves it to the "newest" end of the Map)
+   * - Map keeps insertion order, so the first key is always the oldest
+   */
+  private set(key: string, value: T): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, storedAt: Date.now(), tags: new Set(this.getTags(value)) });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
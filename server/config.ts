@@ -0,0 +1,552 @@
+/**
+ * Runtime configuration - every environment variable, typed and validated
+ *
+ * WHAT THIS DOES:
+ * - Reads the environment once, at startup, into a typed object
+ *   (server/index.ts and server/dev.ts refuse to start when it's invalid)
+ * - Reports every problem at once: missing required variables, unknown
+ *   regions, malformed URLs, booleans and numbers
+ * - Renders a redacted summary for the startup log, and the non-secret
+ *   part for GET /health
+ *
+ * TWO HALVES:
+ * - Public (readPublicConfig): The CONTENTSTACK_* variables compiled into
+ *   the client - validated when Vite builds it (plugins/publicConfig.ts),
+ *   which fails on an invalid value; the browser reads the result as a
+ *   plain object (src/api/config.ts)
+ * - Server (loadConfig): The public half plus tokens, secrets and
+ *   FRAGMENT_* settings, read from process.env once at startup; the SSR
+ *   module gets that same object (provideServerConfig)
+ * - Both must agree: the production server compares its public half with
+ *   the one the client build was compiled with (comparePublicConfig)
+ *
+ * NOTE: Nothing here touches process.env until loadConfig is called, so
+ * the Vite config can import readPublicConfig. App code (src/) only
+ * imports types from this module.
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { getRegionForString, type Region } from "@timbenniks/contentstack-endpoints";
+import type { FragmentCacheOptions } from "./cache.js";
+import type { IsolationMode, StateFormat } from "./fragment.js";
+
+/**
+ * Environment variables by name (process.env; values that aren't strings
+ * count as unset)
+ */
+export type ConfigEnv = Record<string, unknown>;
+
+/**
+ * Thrown when the environment is invalid
+ * - problems: One line per variable, all reported at once
+ *
+ * EXAMPLE (message):
+ * Invalid configuration:
+ *   - CONTENTSTACK_API_KEY is required
+ *   - CONTENTSTACK_REGION: unknown region "mars" (e.g., us, eu, au, azure-na, gcp-eu)
+ */
+export class ConfigError extends Error {
+  override readonly name = "ConfigError";
+
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(["Invalid configuration:", ...problems.map((problem) => `  - ${problem}`)].join("\n"));
+    this.problems = problems;
+  }
+}
+
+/**
+ * Settings compiled into the client (see PUBLIC_ENV in vite.config.ts)
+ * - apiKey / environment: Stack and environment to read (CONTENTSTACK_API_KEY
+ *   is required at startup unless content comes from fixtures - "" then,
+ *   and never by the client build; CONTENTSTACK_ENVIRONMENT defaults to
+ *   "production")
+ * - region: Resolved region (CONTENTSTACK_REGION, any alias - default "us")
+ * - preview / previewSsr: Live preview, rendered on the server for Visual
+ *   Builder (CONTENTSTACK_PREVIEW, CONTENTSTACK_PREVIEW_SSR - "true"/"false")
+ * - notFoundUrl: url of the page entry rendered for 404s (CONTENTSTACK_NOT_FOUND_URL)
+ * - linkBase / internalHosts: Rich text link rewriting (CONTENTSTACK_LINK_BASE,
+ *   CONTENTSTACK_INTERNAL_HOSTS - see src/api/sanitize.ts)
+ * - embedOrigins: Origins JSON RTE embeds may load in an iframe
+ *   (CONTENTSTACK_EMBED_ORIGINS - default YouTube and Vimeo; other embeds
+ *   become links)
+ * - locales: Supported locale codes, default first (CONTENTSTACK_LOCALES -
+ *   default "en-us" only)
+ * - localeFallbacks: Next locale to try for each locale
+ *   (CONTENTSTACK_LOCALE_FALLBACKS - see src/api/locales.ts)
+ */
+export interface PublicConfig {
+  apiKey: string;
+  environment: string;
+  region: Region;
+  preview: boolean;
+  previewSsr: boolean;
+  notFoundUrl?: string;
+  linkBase?: string;
+  internalHosts: string[];
+  embedOrigins: string[];
+  locales: string[];
+  localeFallbacks: Record<string, string>;
+}
+
+/**
+ * Content provider names (FRAGMENT_CONTENT_PROVIDER)
+ * - contentstack: The Delivery SDK (default)
+ * - fixtures: JSON files in FRAGMENT_FIXTURES_DIR (default fixtures/content)
+ * - record: Contentstack, writing every response into FRAGMENT_FIXTURES_DIR
+ */
+export type ContentProviderName = "contentstack" | "fixtures" | "record";
+
+/**
+ * Everything the server process is configured with
+ * - contentstack: The public settings plus the tokens and webhook secret
+ *   (delivery token required unless content comes from fixtures, preview
+ *   token required with CONTENTSTACK_PREVIEW=true)
+ * - port: PORT (default 3000)
+ * - assetBaseUrl: ASSET_BASE_URL without trailing slash ("" → relative URLs)
+ * - contentProvider / fixturesDir: FRAGMENT_CONTENT_PROVIDER, FRAGMENT_FIXTURES_DIR
+ * - cache: FRAGMENT_CACHE_TTL, FRAGMENT_CACHE_SWR, FRAGMENT_CACHE_MAX_ENTRIES
+ * - stateFormat / isolation: FRAGMENT_STATE_FORMAT, FRAGMENT_ISOLATION
+ * - healthProbeTtl: Seconds a content provider probe result is reused by
+ *   GET /health/ready (FRAGMENT_HEALTH_PROBE_TTL, default 10)
+ * - shutdownDelay: Seconds the production server keeps serving after
+ *   SIGTERM, with readiness failing, before it stops accepting connections
+ *   (FRAGMENT_SHUTDOWN_DELAY, default 5)
+ * - shutdownTimeout: Seconds in-flight requests get to finish after that
+ *   (FRAGMENT_SHUTDOWN_TIMEOUT, default 20)
+ * - buildCommit: Commit the build was made from, reported by the health
+ *   checks (BUILD_COMMIT, optional - set it in CI)
+ */
+export interface ServerConfig {
+  contentstack: PublicConfig & {
+    deliveryToken?: string;
+    previewToken?: string;
+    webhookSecret?: string;
+  };
+  port: number;
+  assetBaseUrl: string;
+  contentProvider: ContentProviderName;
+  fixturesDir: string;
+  cache: FragmentCacheOptions;
+  stateFormat: StateFormat;
+  isolation: IsolationMode;
+  healthProbeTtl: number;
+  shutdownDelay: number;
+  shutdownTimeout: number;
+  buildCommit?: string;
+}
+
+/**
+ * Typed readers for one environment
+ * - Each reader returns a usable default and records a problem when the
+ *   value is invalid, so every problem is reported in one error
+ */
+function createReader(env: ConfigEnv) {
+  const problems: string[] = [];
+  const read = (name: string) => {
+    const value = env[name];
+    return typeof value === "string" ? value.trim() || undefined : undefined;
+  };
+
+  return {
+    problems,
+
+    string(name: string): string | undefined {
+      return read(name);
+    },
+
+    required(name: string): string {
+      const value = read(name);
+      if (!value) problems.push(`${name} is required`);
+      return value ?? "";
+    },
+
+    boolean(name: string): boolean {
+      const value = read(name);
+      if (value === undefined || value === "false") return false;
+      if (value === "true") return true;
+      problems.push(`${name}: expected "true" or "false", got "${value}"`);
+      return false;
+    },
+
+    integer(name: string, fallback: number, { min = 0, max = Number.MAX_SAFE_INTEGER } = {}): number {
+      const value = read(name);
+      if (value === undefined) return fallback;
+      const number = Number(value);
+      if (!Number.isInteger(number) || number < min || number > max) {
+        const range = max === Number.MAX_SAFE_INTEGER ? `of at least ${min}` : `from ${min} to ${max}`;
+        problems.push(`${name}: expected a whole number ${range}, got "${value}"`);
+        return fallback;
+      }
+      return number;
+    },
+
+    oneOf<T extends string>(name: string, values: readonly T[], fallback: T): T {
+      const value = read(name);
+      if (value === undefined) return fallback;
+      if ((values as readonly string[]).includes(value)) return value as T;
+      problems.push(`${name}: expected one of ${values.join(", ")}, got "${value}"`);
+      return fallback;
+    },
+
+    /** Absolute http(s) URL */
+    url(name: string): string | undefined {
+      const value = read(name);
+      if (value !== undefined && !isHttpUrl(value)) {
+        problems.push(`${name}: expected an absolute http(s) URL, got "${value}"`);
+        return undefined;
+      }
+      return value;
+    },
+
+    /** Path ("/content"), or an absolute http(s) URL when allowUrl is set */
+    path(name: string, { allowUrl = false } = {}): string | undefined {
+      const value = read(name);
+      if (value !== undefined && !value.startsWith("/") && !(allowUrl && isHttpUrl(value))) {
+        const expected = allowUrl ? `a path ("/content") or an absolute http(s) URL` : `a path ("/404")`;
+        problems.push(`${name}: expected ${expected}, got "${value}"`);
+        return undefined;
+      }
+      return value;
+    },
+
+    list(name: string): string[] {
+      return (read(name) ?? "")
+        .split(",")
+        .map((item) => item.trim())
+        .filter(Boolean);
+    },
+  };
+}
+
+type ConfigReader = ReturnType<typeof createReader>;
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+/** Embed origins when CONTENTSTACK_EMBED_ORIGINS is unset */
+const DEFAULT_EMBED_ORIGINS = ["https://www.youtube.com", "https://www.youtube-nocookie.com", "https://player.vimeo.com"];
+
+/**
+ * Read CONTENTSTACK_EMBED_ORIGINS - comma-separated origins, normalized
+ * (e.g., "https://www.youtube.com,https://player.vimeo.com")
+ */
+function readEmbedOrigins(reader: ConfigReader): string[] {
+  const values = reader.list("CONTENTSTACK_EMBED_ORIGINS");
+  if (!values.length) return DEFAULT_EMBED_ORIGINS;
+
+  return values.flatMap((value) => {
+    const origin = isHttpUrl(value) ? new URL(value).origin : undefined;
+    if (!origin || origin !== value.replace(/\/+$/, "").toLowerCase()) {
+      reader.problems.push(`CONTENTSTACK_EMBED_ORIGINS: expected an origin (https://www.youtube.com), got "${value}"`);
+      return [];
+    }
+    return [origin];
+  });
+}
+
+/** Locale code: language, then optional subtags (en, en-us, zh-hans-cn) */
+const LOCALE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+/**
+ * Read CONTENTSTACK_LOCALES and CONTENTSTACK_LOCALE_FALLBACKS
+ * - Codes are lowercased; both sides of a fallback must be supported locales
+ *
+ * EXAMPLE:
+ * - CONTENTSTACK_LOCALES=en-us,fr-fr,fr-ca, CONTENTSTACK_LOCALE_FALLBACKS=fr-ca:fr-fr
+ *   → { locales: ["en-us", "fr-fr", "fr-ca"], localeFallbacks: { "fr-ca": "fr-fr" } }
+ */
+function readLocales(reader: ConfigReader): Pick<PublicConfig, "locales" | "localeFallbacks"> {
+  const locales = [...new Set(reader.list("CONTENTSTACK_LOCALES").map((code) => code.toLowerCase()))];
+  locales
+    .filter((code) => !LOCALE_CODE.test(code))
+    .forEach((code) => reader.problems.push(`CONTENTSTACK_LOCALES: invalid locale code "${code}" (e.g., en-us, fr-fr)`));
+  if (!locales.length) locales.push("en-us");
+
+  const localeFallbacks: Record<string, string> = {};
+  for (const pair of reader.list("CONTENTSTACK_LOCALE_FALLBACKS")) {
+    const [from, to, ...rest] = pair.toLowerCase().split(":").map((code) => code.trim());
+    if (!from || !to || rest.length) {
+      reader.problems.push(`CONTENTSTACK_LOCALE_FALLBACKS: expected "locale:fallback" (e.g., fr-ca:fr-fr), got "${pair}"`);
+      continue;
+    }
+    const unknown = [from, to].filter((code) => !locales.includes(code));
+    if (unknown.length) {
+      reader.problems.push(`CONTENTSTACK_LOCALE_FALLBACKS: "${unknown.join('", "')}" not in CONTENTSTACK_LOCALES`);
+      continue;
+    }
+    localeFallbacks[from] = to;
+  }
+
+  return { locales, localeFallbacks };
+}
+
+/**
+ * Options for reading the public half
+ * - requireApiKey: Whether CONTENTSTACK_API_KEY must be set (false when
+ *   content comes from fixtures, which never reach a stack, and for the
+ *   client build, which can't know the provider - see comparePublicConfig)
+ */
+export interface PublicConfigOptions {
+  requireApiKey?: boolean;
+}
+
+/** Read the public half (shared by readPublicConfig and loadConfig) */
+function readPublic(reader: ConfigReader, { requireApiKey = true }: PublicConfigOptions = {}): PublicConfig {
+  const regionName = reader.string("CONTENTSTACK_REGION") ?? "us";
+  const region = getRegionForString(regionName);
+  if (!region) {
+    reader.problems.push(
+      `CONTENTSTACK_REGION: unknown region "${regionName}" (e.g., us, eu, au, azure-na, azure-eu, gcp-na, gcp-eu)`
+    );
+  }
+
+  const preview = reader.boolean("CONTENTSTACK_PREVIEW");
+  return {
+    apiKey: (requireApiKey ? reader.required("CONTENTSTACK_API_KEY") : reader.string("CONTENTSTACK_API_KEY")) ?? "",
+    environment: reader.string("CONTENTSTACK_ENVIRONMENT") ?? "production",
+    region: region ?? (regionName as Region),
+    preview,
+    // Server-rendered preview is a mode of live preview
+    previewSsr: reader.boolean("CONTENTSTACK_PREVIEW_SSR") && preview,
+    notFoundUrl: reader.path("CONTENTSTACK_NOT_FOUND_URL"),
+    linkBase: reader.path("CONTENTSTACK_LINK_BASE", { allowUrl: true }),
+    internalHosts: reader.list("CONTENTSTACK_INTERNAL_HOSTS").map((host) => host.toLowerCase()),
+    embedOrigins: readEmbedOrigins(reader),
+    ...readLocales(reader),
+  };
+}
+
+/**
+ * Read the settings compiled into the client
+ *
+ * @param env - The build's environment (process.env in vite.config.ts)
+ * @param options - See PublicConfigOptions
+ * @throws ConfigError listing every invalid variable
+ *
+ * EXAMPLE:
+ * readPublicConfig({ CONTENTSTACK_API_KEY: "blt123", CONTENTSTACK_REGION: "eu" })
+ * → { apiKey: "blt123", environment: "production", region: "eu", preview: false, ... }
+ */
+export function readPublicConfig(env: ConfigEnv, options?: PublicConfigOptions): PublicConfig {
+  const reader = createReader(env);
+  const config = readPublic(reader, options);
+  if (reader.problems.length) throw new ConfigError(reader.problems);
+  return config;
+}
+
+/**
+ * Read and validate the server configuration
+ *
+ * @param env - Defaults to process.env (after dotenv loaded .env)
+ * @throws ConfigError listing every invalid variable
+ *
+ * USAGE:
+ * try {
+ *   config = loadConfig();
+ * } catch (error) {
+ *   console.error(error.message); // Invalid configuration: ...
+ *   process.exit(1);
+ * }
+ */
+export function loadConfig(env: ConfigEnv = process.env): ServerConfig {
+  const reader = createReader(env);
+  const contentProvider = reader.oneOf<ContentProviderName>(
+    "FRAGMENT_CONTENT_PROVIDER",
+    ["contentstack", "fixtures", "record"],
+    "contentstack"
+  );
+  // Fixtures never reach Contentstack (and have no drafts)
+  const usesStack = contentProvider !== "fixtures";
+  const publicConfig = readPublic(reader, { requireApiKey: usesStack });
+
+  const deliveryToken = usesStack ? reader.required("CONTENTSTACK_DELIVERY_TOKEN") : reader.string("CONTENTSTACK_DELIVERY_TOKEN");
+  const previewToken =
+    usesStack && publicConfig.preview
+      ? reader.required("CONTENTSTACK_PREVIEW_TOKEN")
+      : reader.string("CONTENTSTACK_PREVIEW_TOKEN");
+
+  const config: ServerConfig = {
+    contentstack: {
+      ...publicConfig,
+      deliveryToken,
+      previewToken,
+      webhookSecret: reader.string("CONTENTSTACK_WEBHOOK_SECRET"),
+    },
+    port: reader.integer("PORT", 3000, { min: 1, max: 65535 }),
+    assetBaseUrl: reader.url("ASSET_BASE_URL")?.replace(/\/+$/, "") ?? "",
+    contentProvider,
+    fixturesDir: reader.string("FRAGMENT_FIXTURES_DIR") ?? "fixtures/content",
+    cache: {
+      ttl: reader.integer("FRAGMENT_CACHE_TTL", 60),
+      staleWhileRevalidate: reader.integer("FRAGMENT_CACHE_SWR", 300),
+      maxEntries: reader.integer("FRAGMENT_CACHE_MAX_ENTRIES", 500, { min: 1 }),
+    },
+    stateFormat: reader.oneOf<StateFormat>("FRAGMENT_STATE_FORMAT", ["script", "json"], "script"),
+    isolation: reader.oneOf<IsolationMode>("FRAGMENT_ISOLATION", ["none", "shadow"], "none"),
+    healthProbeTtl: reader.integer("FRAGMENT_HEALTH_PROBE_TTL", 10),
+    shutdownDelay: reader.integer("FRAGMENT_SHUTDOWN_DELAY", 5),
+    shutdownTimeout: reader.integer("FRAGMENT_SHUTDOWN_TIMEOUT", 20),
+    buildCommit: reader.string("BUILD_COMMIT"),
+  };
+
+  if (reader.problems.length) throw new ConfigError(reader.problems);
+  return config;
+}
+
+/**
+ * Variable each public setting comes from (see PublicConfig)
+ */
+const PUBLIC_CONFIG_VARIABLES: Record<keyof PublicConfig, string> = {
+  apiKey: "CONTENTSTACK_API_KEY",
+  environment: "CONTENTSTACK_ENVIRONMENT",
+  region: "CONTENTSTACK_REGION",
+  preview: "CONTENTSTACK_PREVIEW",
+  previewSsr: "CONTENTSTACK_PREVIEW_SSR",
+  notFoundUrl: "CONTENTSTACK_NOT_FOUND_URL",
+  linkBase: "CONTENTSTACK_LINK_BASE",
+  internalHosts: "CONTENTSTACK_INTERNAL_HOSTS",
+  embedOrigins: "CONTENTSTACK_EMBED_ORIGINS",
+  locales: "CONTENTSTACK_LOCALES",
+  localeFallbacks: "CONTENTSTACK_LOCALE_FALLBACKS",
+};
+
+/**
+ * Read the public settings a client build was compiled with
+ * (.vite/public-config.json, written by plugins/publicConfig.ts)
+ *
+ * @throws Error when the build is missing (run `npm run build` first)
+ */
+export function readBuiltPublicConfig(clientDir: string): PublicConfig {
+  const configPath = resolve(clientDir, ".vite/public-config.json");
+  try {
+    return JSON.parse(readFileSync(configPath, "utf-8")) as PublicConfig;
+  } catch (error) {
+    throw new Error(`Missing ${configPath} - run \`npm run build\` first`, { cause: error });
+  }
+}
+
+/**
+ * Compare the public settings of a client build with the server's
+ *
+ * WHY?
+ * - The browser runs with the values compiled into the client build,
+ *   server rendering with the server's environment: a different locale
+ *   list, region or link base breaks hydration, hreflang and links
+ * - The production server refuses to start on any difference (see
+ *   server/index.ts) - rebuild the client with the server's environment
+ *
+ * @param built - Settings the client was built with (see readBuiltPublicConfig)
+ * @param runtime - The server's settings (config.contentstack)
+ * @returns One problem per differing variable (empty when they match) -
+ *   the API key's values are never printed
+ *
+ * EXAMPLE:
+ * comparePublicConfig(built, config.contentstack)
+ * → ['CONTENTSTACK_LOCALES: client built with ["en-us","fr-fr"], server has ["en-us"]']
+ */
+export function comparePublicConfig(built: PublicConfig, runtime: PublicConfig): string[] {
+  const format = (value: unknown) => JSON.stringify(value ?? null);
+  return (Object.keys(PUBLIC_CONFIG_VARIABLES) as (keyof PublicConfig)[])
+    .filter((key) => format(built[key]) !== format(runtime[key]))
+    .map((key) => {
+      const name = PUBLIC_CONFIG_VARIABLES[key];
+      return key === "apiKey"
+        ? `${name}: the client was built with another value`
+        : `${name}: client built with ${format(built[key])}, server has ${format(runtime[key])}`;
+    });
+}
+
+declare global {
+  var __FRAGMENT_SERVER_CONFIG__: ServerConfig | undefined;
+}
+
+/**
+ * Hand the server configuration to the SSR module
+ *
+ * WHY?
+ * - The SSR module (src/) needs the tokens and the content provider, but
+ *   must not read the environment itself: in production it's a separate
+ *   bundle (dist/server/entry-server.js), so it would validate a second copy
+ * - Call it before the SSR module loads; src/api/config.ts reads it when the
+ *   module is evaluated
+ *
+ * USAGE:
+ * const config = loadConfig();
+ * provideServerConfig(config);
+ * const ssrModule = await import("./entry-server.js");
+ */
+export function provideServerConfig(config: ServerConfig): void {
+  globalThis.__FRAGMENT_SERVER_CONFIG__ = config;
+}
+
+/**
+ * The configuration without secrets or credentials (GET /health)
+ * - Tokens, the webhook secret and the API key are left out; only whether
+ *   a webhook secret is set is reported
+ */
+export function getPublicConfig(config: ServerConfig) {
+  const { contentstack } = config;
+  return {
+    contentProvider: config.contentProvider,
+    environment: contentstack.environment,
+    region: contentstack.region,
+    preview: contentstack.preview,
+    previewSsr: contentstack.previewSsr,
+    webhooks: !!contentstack.webhookSecret,
+    assetBaseUrl: config.assetBaseUrl || null,
+    cache: config.cache,
+    stateFormat: config.stateFormat,
+    isolation: config.isolation,
+  };
+}
+
+/**
+ * Startup log summary - one "NAME: value" line per setting
+ * - Secrets show whether they're set, never their value
+ *
+ * EXAMPLE:
+ * Content: contentstack (region eu, environment production)
+ * Delivery token: set (redacted)
+ * Locales: en-us (default), fr-fr, fr-ca → fr-fr
+ */
+export function describeConfig(config: ServerConfig): string[] {
+  const { contentstack, cache } = config;
+  const secret = (value?: string) => (value ? "set (redacted)" : "not set");
+  const content =
+    config.contentProvider === "fixtures"
+      ? `fixtures (${config.fixturesDir})`
+      : `${config.contentProvider} (region ${contentstack.region}, environment ${contentstack.environment})`;
+
+  return [
+    `Content: ${content}`,
+    `API key: ${secret(contentstack.apiKey)}`,
+    `Delivery token: ${secret(contentstack.deliveryToken)}`,
+    `Preview mode: ${contentstack.preview ? `enabled${contentstack.previewSsr ? " (server-rendered)" : ""}` : "disabled"}`,
+    `Preview token: ${secret(contentstack.previewToken)}`,
+    `Locales: ${describeLocales(contentstack)}`,
+    `Webhook secret: ${secret(contentstack.webhookSecret)}`,
+    `Assets: ${config.assetBaseUrl || "relative URLs"}`,
+    `Cache: ttl ${cache.ttl}s, stale-while-revalidate ${cache.staleWhileRevalidate}s, ${cache.maxEntries} entries`,
+    `Fragments: ${config.stateFormat} state, isolation ${config.isolation}`,
+  ];
+}
+
+/**
+ * One line for the locales: default first, fallbacks after an arrow
+ */
+function describeLocales({ locales, localeFallbacks }: PublicConfig): string {
+  return locales
+    .map((code, index) => {
+      if (index === 0) return `${code} (default)`;
+      return localeFallbacks[code] ? `${code} → ${localeFallbacks[code]}` : code;
+    })
+    .join(", ");
+}
@@ -11,28 +11,27 @@
  * - No pre-built assets (everything compiled on-the-fly)
  * - Vite handles TypeScript/JSX transpilation
  * - HMR scripts injected for instant updates
- * - Source maps and error overlays enabled
+ * - Source maps, and stack traces that point at source files
+ * - No fragment cache (every request renders the current source and content)
  *
- * HOW IT WORKS:
- * 1. Request comes in (e.g., GET /about)
- * 2. Vite loads entry-server.tsx module dynamically
- * 3. Fetch content from Contentstack
- * 4. Render React to HTML string
- * 5. Inject HMR scripts and send response
+ * Everything else - routes, headers, errors - is the production pipeline
+ * (createFragmentApp, server/app.ts); this file only passes in Vite as
+ * the SSR module loader and asset source.
  */
 
 import "dotenv/config";
-import express, { Request, Response, NextFunction } from "express";
-import { createServer as createViteServer } from "vite";
+import { createServer as createViteServer, type ViteDevServer } from "vite";
 import { fileURLToPath } from "node:url";
 import { dirname, resolve } from "node:path";
-import { getSlugFromUrl, serializeContent } from "./utils.js";
-import type { SSRModule } from "./types.js";
+import { createFragmentApp } from "./app.js";
+import { ConfigError, describeConfig, loadConfig, provideServerConfig } from "./config.js";
+import { readBuildInfo } from "./health.js";
+import { handleShutdownSignals } from "./shutdown.js";
+import type { FragmentAssetSource, FragmentAssets, SSRModule } from "./types.js";
 
 // Get directory path (ESM equivalent of __dirname)
 // fileURLToPath converts file:// URL to path string
 const __dirname = dirname(fileURLToPath(import.meta.url));
-const PORT = parseInt(process.env.PORT || "3000", 10);
 
 /**
  * Development scripts injected into every response
@@ -46,21 +45,57 @@ const PORT = parseInt(process.env.PORT || "3000", 10);
  * - Production uses pre-built assets with manifest
  * - Dev needs these scripts for HMR to work
  * - These are Vite-specific dev features
+ *
+ * NOTE: No CSS links - in dev, Vite injects styles from JS, and no SRI
+ * hashes - files are compiled on request
  */
-const DEV_SCRIPTS = `
-  <script type="module">
+const DEV_ASSETS: FragmentAssets = {
+  css: [],
+  modulepreload: [],
+  scripts: [
+    {
+      type: "module",
+      content: `
     import RefreshRuntime from '/@react-refresh'
     RefreshRuntime.injectIntoGlobalHook(window)
     window.$RefreshReg$ = () => {}
     window.$RefreshSig$ = () => (type) => type
     window.__vite_plugin_react_preamble_installed__ = true
-  </script>
-  <script type="module" src="/@vite/client"></script>
-  <script type="module" src="/src/entry-client.tsx"></script>
-`;
+  `,
+    },
+    { type: "module", src: "/@vite/client" },
+    { type: "module", src: "/src/entry-client.tsx" },
+  ],
+};
+
+/**
+ * Stylesheet for shadow isolation in dev
+ * - Vite's injected <style> tags end up in the document <head>, outside the
+ *   shadow root, so the app CSS is also linked inside it
+ * - Vite serves CSS as a plain stylesheet when requested by a <link>
+ */
+const DEV_SHADOW_ASSETS: FragmentAssets = { ...DEV_ASSETS, css: [{ href: "/src/App.css" }] };
+
+/**
+ * Asset source backed by Vite
+ * - Vite's middleware serves (and compiles) every source file and the HMR client
+ * - Every fragment links the dev scripts above (no lazy chunk preloads -
+ *   nothing is bundled)
+ * - The <content-fragment> element is served from source
+ */
+function createDevAssets(vite: ViteDevServer): FragmentAssetSource {
+  return {
+    middleware: vite.middlewares,
+    getEntryAssets: (_modules, { shadow }) => (shadow ? DEV_SHADOW_ASSETS : DEV_ASSETS),
+    contentFragmentUrl: "/src/content-fragment.ts",
+  };
+}
 
 async function createDevServer() {
-  const app = express();
+  // Validated before Vite starts - see server/config.ts
+  const config = loadConfig();
+  // The SSR module uses this same configuration (tokens, content provider)
+  provideServerConfig(config);
 
   /**
    * Create Vite dev server
@@ -82,72 +117,42 @@ async function createDevServer() {
     appType: "custom",
   });
 
-  // Use Vite's middleware to handle asset requests and HMR
-  // This intercepts requests for JS/CSS files and processes them
-  app.use(vite.middlewares);
-  
-  // Health check endpoint - includes preview mode status
-  app.get("/health", (_req, res) => {
-    const isPreviewMode = process.env.CONTENTSTACK_PREVIEW === "true";
-    res.json({ 
-      status: "ok", 
-      mode: "development",
-      previewMode: isPreviewMode 
-    });
-  });
+  // Aborted on SIGTERM / Ctrl+C: readiness fails while in-flight requests drain
+  const shutdown = new AbortController();
 
-  /**
-   * Catch-all route - handles all page requests
-   *
-   * FLOW:
-   * 1. Extract URL slug (e.g., "/about" from "/about?foo=bar")
-   * 2. Dynamically load entry-server.tsx module (Vite compiles it on-the-fly)
-   * 3. Fetch content from Contentstack for this slug
-   * 4. Render React component to HTML string
-   * 5. Embed content in window.__INITIAL_CONTENT__ for hydration
-   * 6. Inject HMR scripts and send HTML fragment
-   */
-  app.use("*", async (req: Request, res: Response, next: NextFunction) => {
-    try {
+  const app = createFragmentApp({
+    mode: "development",
+    renderer: {
       // Load SSR module dynamically (Vite compiles TypeScript on-the-fly)
       // This is why we don't need to build before running dev server
-      const ssrModule = (await vite.ssrLoadModule("/src/entry-server.tsx")) as SSRModule;
-      
-      // Fetch content from Contentstack
-      const content = await ssrModule.fetchPageBySlug(getSlugFromUrl(req.originalUrl));
-      
-      // Render React component tree to HTML string
-      const { html } = await ssrModule.render(req.originalUrl, { content });
-
-      // Build the HTML fragment:
-      // - Root div with SSR HTML
-      // - Script tag with initial content (for hydration)
-      // - HMR scripts (dev only)
-      const fragment = `
-        <div id="fragment-root">${html}</div>
-        <script>window.__INITIAL_CONTENT__ = ${serializeContent(content)};</script>
-        ${DEV_SCRIPTS}
-      `;
-
-      res.status(200).set({ "Content-Type": "text/html" }).send(fragment);
-    } catch (e) {
-      if (e instanceof Error) {
-        // Vite can fix stack traces to point to source files (not compiled)
-        vite.ssrFixStacktrace(e);
-        console.error(e.stack);
-        res.status(500).send(`<pre>${e.stack}</pre>`);
-      } else {
-        next(e);
-      }
-    }
+      load: async () => (await vite.ssrLoadModule("/src/entry-server.tsx")) as SSRModule,
+      // Vite can fix stack traces to point to source files (not compiled)
+      fixStacktrace: (error) => vite.ssrFixStacktrace(error),
+    },
+    assets: createDevAssets(vite),
+    config,
+    build: readBuildInfo(resolve(__dirname, ".."), config.buildCommit),
+    signal: shutdown.signal,
   });
 
-  app.listen(PORT, () => {
-    const isPreviewMode = process.env.CONTENTSTACK_PREVIEW === "true";
-    console.log(`\n  Dev server: http://localhost:${PORT}`);
+  const server = app.listen(config.port, () => {
+    console.log(`\n  Dev server: http://localhost:${config.port}`);
     console.log(`  HMR enabled`);
-    console.log(`  Preview mode: ${isPreviewMode ? "enabled" : "disabled"}\n`);
+    describeConfig(config).forEach((line) => console.log(`  ${line}`));
+    console.log("");
+  });
+
+  handleShutdownSignals(server, {
+    shutdown,
+    // No load balancer to wait for (FRAGMENT_SHUTDOWN_DELAY is for production)
+    delay: 0,
+    timeout: config.shutdownTimeout,
+    log: (message) => console.log(`  ${message}`),
   });
 }
 
-createDevServer();
+createDevServer().catch((error) => {
+  // Invalid environment: list every problem, without a stack trace
+  console.error(error instanceof ConfigError ? error.message : error);
+  process.exit(1);
+});
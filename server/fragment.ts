@@ -0,0 +1,356 @@
+/**
+ * Fragment assembly - wraps SSR markup so several fragments can share a page
+ *
+ * WHAT THIS DOES:
+ * - Gives every fragment response its own root element id
+ * - Scopes the initial content payload to that id
+ * - Marks the root with data attributes the client entry looks for
+ *
+ * WHY?
+ * - A host page (e.g., a .NET layout) may embed more than one fragment
+ * - A single #fragment-root / window.__INITIAL_CONTENT__ would collide
+ * - The client discovers every [data-fragment-root] element and hydrates
+ *   each one with the payload stored under its id
+ *
+ * STYLE ISOLATION (opt-in):
+ * - shadow: Markup and stylesheets are rendered inside a Declarative Shadow
+ *   DOM root, so fragment CSS and host CSS can't affect each other
+ * - Build-time fallback: FRAGMENT_CSS_SCOPE=true scopes all CSS under
+ *   [data-fragment-scope] (see plugins/scopeCss.ts)
+ *
+ * NOTE: The attribute and global names below are mirrored in
+ * src/entry-client.tsx - keep them in sync.
+ */
+
+import { createHash } from "node:crypto";
+import type { Request, RequestHandler } from "express";
+import { escapeHtml, renderNonceAttribute, serializeContent } from "./utils.js";
+import type { AlternateLink, FragmentAssets, FragmentEnvelope, PreviewTimeline } from "./types.js";
+
+/**
+ * Allowed shape for host-provided fragment ids
+ * - Must be a valid, unquoted-safe HTML id (letters, digits, "-" and "_")
+ * - Keeps the id safe to embed in attributes and inline scripts
+ */
+const FRAGMENT_ID_PATTERN = /^[A-Za-z][\w-]{0,63}$/;
+
+/**
+ * Resolve the root element id for a fragment
+ *
+ * @param slug - URL path being rendered (e.g., "/about")
+ * @param requestedId - Optional id supplied by the host (X-Fragment-Id header or ?fragmentId=)
+ * @returns A valid element id
+ *
+ * HOW IT WORKS:
+ * - A valid host-provided id always wins (lets the host pick stable ids)
+ * - Otherwise the id is derived from the slug, so the same page always
+ *   gets the same id (two copies of one page share an identical payload)
+ *
+ * EXAMPLE:
+ * - createFragmentId("/about") → "fragment-3f2a9c1b"
+ * - createFragmentId("/about", "promo") → "promo"
+ */
+export function createFragmentId(slug: string, requestedId?: string): string {
+  if (requestedId && FRAGMENT_ID_PATTERN.test(requestedId)) return requestedId;
+  return `fragment-${createHash("sha1").update(slug).digest("hex").slice(0, 8)}`;
+}
+
+/**
+ * Read the fragment id the host asked for (if any)
+ *
+ * SOURCES (first match wins):
+ * - X-Fragment-Id request header (server-side includes)
+ * - ?fragmentId= query parameter (client-side fetches)
+ */
+export function getRequestedFragmentId(req: Request): string | undefined {
+  const fromQuery = typeof req.query.fragmentId === "string" ? req.query.fragmentId : undefined;
+  return req.get("X-Fragment-Id") ?? fromQuery;
+}
+
+/**
+ * Read the locale hints of a request (see resolveLocale in src/api/locales.ts)
+ *
+ * SOURCES (after the URL prefix, which the SSR module reads from the path):
+ * - X-Fragment-Locale: Locale chosen by the host (e.g., from its own routing)
+ * - Accept-Language: The browser's preference (forwarded by the host)
+ */
+export function getLocaleHints(req: Request): { requested?: string; acceptLanguage?: string } {
+  return { requested: req.get("X-Fragment-Locale"), acceptLanguage: req.get("Accept-Language") };
+}
+
+/**
+ * Build a Link header announcing the alternate-locale URLs (hreflang)
+ *
+ * @returns Header value, or undefined when there are no alternates
+ *
+ * EXAMPLE:
+ * [{ locale: "en-us", href: "/about" }, { locale: "fr-fr", href: "/fr-fr/a-propos" }]
+ * → '</about>; rel="alternate"; hreflang="en-us", </fr-fr/a-propos>; rel="alternate"; hreflang="fr-fr"'
+ *
+ * NOTE: hrefs are paths in this server's URL scheme - hosts map them to
+ * their own URLs before emitting <link rel="alternate" hreflang>.
+ */
+export function renderAlternatesHeader(alternates: AlternateLink[]): string | undefined {
+  if (!alternates.length) return undefined;
+  return alternates
+    // Header values are ASCII: percent-encode anything else (and < > ")
+    .map(({ locale, href }) => `<${href.replace(/[^\x21-\x7e]|[<>"]/gu, encodeURIComponent)}>; rel="alternate"; hreflang="${locale}"`)
+    .join(", ");
+}
+
+/**
+ * Allowed shape for a host-provided CSP nonce (base64 / base64url)
+ */
+const NONCE_PATTERN = /^[A-Za-z0-9+/_-]{8,256}={0,2}$/;
+
+/**
+ * Read the CSP nonce the host page uses (if any)
+ *
+ * WHY?
+ * - Hosts with a strict Content-Security-Policy (script-src 'nonce-...')
+ *   block inline scripts and unlisted external tags
+ * - The host generates a nonce per page view and forwards it in the
+ *   X-CSP-Nonce header; every script/style tag we emit carries it
+ *
+ * @returns The nonce, or undefined when missing or malformed
+ */
+export function getCspNonce(req: Request): string | undefined {
+  const nonce = req.get("X-CSP-Nonce");
+  return nonce && NONCE_PATTERN.test(nonce) ? nonce : undefined;
+}
+
+/**
+ * How the initial content is embedded next to the root
+ * - script: Inline script assigning window.__FRAGMENT_CONTENT__[id] (default)
+ * - json: <script type="application/json" data-fragment-state="id"> data block
+ *   (never executed, so it works without 'unsafe-inline' or a nonce)
+ * - Configured with FRAGMENT_STATE_FORMAT (see server/config.ts)
+ */
+export type StateFormat = "script" | "json";
+
+/**
+ * Query parameters that only control how the fragment is delivered
+ * (they don't change what the page shows)
+ */
+const CONTROL_PARAMS = ["format", "stream", "fragmentId", "isolation"];
+
+/**
+ * URL the fragment represents (request URL minus delivery switches)
+ *
+ * EXAMPLE:
+ * - "/about?format=json&fragmentId=promo" → "/about"
+ * - "/search?q=shoes&stream=true" → "/search?q=shoes"
+ */
+export function getFragmentUrl(req: Request): string {
+  const url = new URL(req.originalUrl, "http://fragment.local");
+  CONTROL_PARAMS.forEach((param) => url.searchParams.delete(param));
+  return `${url.pathname}${url.search}`;
+}
+
+/**
+ * How the fragment's markup is isolated from the host page
+ * - none: Rendered into the host's DOM (default)
+ * - shadow: Rendered inside <template shadowrootmode="open"> together with
+ *   its stylesheets; the browser attaches the shadow root while parsing
+ * - Default configured with FRAGMENT_ISOLATION (see server/config.ts)
+ */
+export type IsolationMode = "none" | "shadow";
+
+/**
+ * Isolation mode for a request
+ *
+ * SOURCES (first match wins):
+ * - X-Fragment-Isolation: shadow | none
+ * - ?isolation=shadow | none
+ * - fallback (FRAGMENT_ISOLATION)
+ */
+export function getIsolationMode(req: Request, fallback: IsolationMode): IsolationMode {
+  const requested = req.get("X-Fragment-Isolation") ?? req.query.isolation;
+  return requested === "shadow" || requested === "none" ? requested : fallback;
+}
+
+/**
+ * How the initial content is embedded
+ * - nonce: CSP nonce stamped on the content script (see getCspNonce)
+ * - stateFormat: Inline script or JSON data block (see StateFormat)
+ */
+export interface EmbedOptions {
+  nonce?: string;
+  stateFormat?: StateFormat;
+}
+
+/**
+ * Options for assembling a fragment
+ * - id: Root element id (see createFragmentId)
+ * - url: URL the fragment was rendered for (the client routes to it)
+ * - html: SSR markup from entry-server.tsx
+ * - content: Content used for the render (embedded for hydration)
+ * - locale: Locale the content was rendered for (the client keeps using it)
+ * - timeline: Timeline / release the content was previewed at (preview only)
+ * - isolation: "shadow" wraps the markup in a declarative shadow root
+ * - styles: Stylesheet tags placed inside the shadow root (shadow mode only,
+ *   see splitShadowStyles in server/assets.ts)
+ */
+export interface FragmentOptions extends EmbedOptions {
+  id: string;
+  url: string;
+  html: string;
+  content: unknown;
+  locale: string;
+  timeline?: PreviewTimeline;
+  isolation?: IsolationMode;
+  styles?: string;
+}
+
+/**
+ * Build the fragment body: root element + scoped initial content script
+ *
+ * @returns HTML string (asset tags are appended by the caller)
+ *
+ * OUTPUT:
+ * <div id="fragment-3f2a9c1b" data-fragment-root data-fragment-url="/about" data-fragment-locale="en-us" data-fragment-scope>...</div>
+ * <script>(window.__FRAGMENT_CONTENT__=window.__FRAGMENT_CONTENT__||{})["fragment-3f2a9c1b"]=...;</script>
+ *
+ * OUTPUT (shadow):
+ * <div id="fragment-3f2a9c1b" data-fragment-root data-fragment-url="/about" data-fragment-locale="en-us" data-fragment-shadow>
+ *   <template shadowrootmode="open">
+ *     <link rel="stylesheet" href="/assets/entry-client-def456.css" crossorigin>
+ *     <div data-fragment-scope>...</div>
+ *   </template>
+ * </div>
+ * <script>...</script>
+ */
+export function renderFragment({
+  id,
+  url,
+  html,
+  content,
+  locale,
+  timeline,
+  isolation = "none",
+  styles = "",
+  ...embed
+}: FragmentOptions): string {
+  const body =
+    isolation === "shadow"
+      ? `<template shadowrootmode="open">${styles}<div data-fragment-scope>${html}</div></template>`
+      : html;
+
+  return `${renderRootOpenTag(id, url, locale, isolation, timeline)}${body}</div>\n${renderContentScript(id, content, embed)}`;
+}
+
+/**
+ * Opening tag of the fragment root
+ * - Exposed separately for streaming, where the markup is written in pieces
+ * - data-fragment-scope marks the element scoped CSS applies to: the root
+ *   itself, or the wrapper inside the shadow root (data-fragment-shadow)
+ * - data-fragment-locale tells the client which locale the content is in
+ * - data-fragment-preview-timestamp / data-fragment-release: Timeline and
+ *   release of a preview, so the client renders the same preview banner
+ */
+export function renderRootOpenTag(
+  id: string,
+  url: string,
+  locale: string,
+  isolation: IsolationMode = "none",
+  timeline?: PreviewTimeline
+): string {
+  const marker = isolation === "shadow" ? "data-fragment-shadow" : "data-fragment-scope";
+  const preview = [
+    timeline?.preview_timestamp && ` data-fragment-preview-timestamp="${escapeHtml(timeline.preview_timestamp)}"`,
+    timeline?.release_id && ` data-fragment-release="${escapeHtml(timeline.release_id)}"`,
+  ].join("");
+  return `<div id="${id}" data-fragment-root data-fragment-url="${escapeHtml(url)}" data-fragment-locale="${escapeHtml(locale)}"${preview} ${marker}>`;
+}
+
+/**
+ * Script storing the initial content under the fragment's id
+ *
+ * OUTPUT:
+ * - script: <script nonce="...">(window.__FRAGMENT_CONTENT__=...)["fragment-3f2a9c1b"]=...;</script>
+ * - json:   <script type="application/json" data-fragment-state="fragment-3f2a9c1b">{...}</script>
+ */
+export function renderContentScript(
+  id: string,
+  content: unknown,
+  { nonce, stateFormat = "script" }: EmbedOptions = {}
+): string {
+  const nonceAttribute = renderNonceAttribute(nonce);
+
+  if (stateFormat === "json") {
+    return `<script type="application/json" data-fragment-state="${escapeHtml(id)}"${nonceAttribute}>${serializeContent(content)}</script>`;
+  }
+
+  return `<script${nonceAttribute}>(window.__FRAGMENT_CONTENT__=window.__FRAGMENT_CONTENT__||{})[${JSON.stringify(id)}]=${serializeContent(content)};</script>`;
+}
+
+/**
+ * Allow cross-origin reads of fragments and assets
+ *
+ * WHY?
+ * - The <content-fragment> element fetches envelopes from the host's origin
+ * - crossorigin attributes on asset tags trigger CORS checks
+ *
+ * NOTE: Allows every origin (fragments are public, no credentials are used).
+ */
+export const allowCrossOrigin: RequestHandler = (_req, res, next) => {
+  res.setHeader("Access-Control-Allow-Origin", "*");
+  next();
+};
+
+/**
+ * Whether the host asked for the JSON envelope instead of HTML
+ *
+ * SWITCHES:
+ * - ?format=json
+ * - Accept: application/json (preferred over text/html)
+ */
+export function wantsJson(req: Request): boolean {
+  if (req.query.format === "json") return true;
+  if (req.query.format === "html") return false;
+  return req.accepts(["text/html", "application/json"]) === "application/json";
+}
+
+/**
+ * Options for the JSON envelope
+ * - html: Fragment body from renderFragment (root + content script)
+ * - assets: Same assets used for the HTML asset tags
+ */
+export interface EnvelopeOptions {
+  id: string;
+  url: string;
+  status: number;
+  html: string;
+  assets: FragmentAssets;
+  initialState: unknown;
+  locale: string;
+  alternates: AlternateLink[];
+  cache: FragmentEnvelope["cache"];
+}
+
+/**
+ * Build the JSON fragment envelope
+ *
+ * EXAMPLE:
+ * {
+ *   "id": "fragment-3f2a9c1b",
+ *   "url": "/about",
+ *   "status": 200,
+ *   "html": "<div id=\"fragment-3f2a9c1b\" data-fragment-root ...>...</div>\n<script>...</script>",
+ *   "css": [{ "href": "/assets/entry-client-def456.css" }],
+ *   "modulepreload": [],
+ *   "scripts": [{ "type": "module", "src": "/assets/entry-client-abc123.js" }],
+ *   "initialState": { "uid": "blt123", "title": "About", ... },
+ *   "locale": "en-us",
+ *   "alternates": [{ "locale": "en-us", "href": "/about" }, { "locale": "fr-fr", "href": "/fr-fr/a-propos" }],
+ *   "cache": { "status": "HIT", "cacheControl": "public, max-age=60", "surrogateKeys": ["page", "url:/about", "blt123"] }
+ * }
+ */
+export function createEnvelope({ assets, ...fields }: EnvelopeOptions): FragmentEnvelope {
+  return {
+    ...fields,
+    css: assets.css,
+    modulepreload: assets.modulepreload,
+    scripts: assets.scripts,
+  };
+}
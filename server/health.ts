@@ -0,0 +1,221 @@
+/**
+ * Health checks - liveness, readiness and build info
+ *
+ * WHAT THIS DOES:
+ * - GET /health: Summary - mode, preview mode, non-secret configuration
+ *   and build info (always 200 while the process answers)
+ * - GET /health/live: Liveness - the process answers (restart it when not)
+ * - GET /health/ready: Readiness - the server can serve fragments right now
+ *   (send it traffic only when 200):
+ *   1. ssr: The SSR module loads (prod: dist/server/entry-server.js)
+ *   2. assets: The client build on disk is the one the manifest was read
+ *      from at startup (see createBuildAssets in server/assets.ts)
+ *   3. content: The content provider answers a query (Contentstack, or
+ *      fixtures - see FRAGMENT_CONTENT_PROVIDER)
+ * - Readiness turns 503 as soon as a graceful shutdown starts (see
+ *   server/shutdown.ts), so the load balancer stops routing before the
+ *   server stops accepting connections
+ *
+ * KUBERNETES:
+ * livenessProbe:
+ *   httpGet: { path: /health/live, port: 3000 }
+ * readinessProbe:
+ *   httpGet: { path: /health/ready, port: 3000 }
+ *   periodSeconds: 5
+ *
+ * NOTE: The content probe is a real query (the home page in the default
+ * locale). Its result is reused for FRAGMENT_HEALTH_PROBE_TTL seconds, so
+ * every replica probing every few seconds doesn't add up to Contentstack load.
+ */
+
+import express, { type Router } from "express";
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { getPublicConfig, type ServerConfig } from "./config.js";
+import type { FragmentAssetSource, FragmentRenderer, ServerMode } from "./types.js";
+
+/** Milliseconds the content provider gets to answer the probe */
+const CONTENT_PROBE_TIMEOUT = 5_000;
+
+/**
+ * What is running (reported by GET /health and GET /health/ready)
+ * - version: package.json version
+ * - commit: Commit the build was made from (BUILD_COMMIT), null when unset
+ * - node: Node.js version
+ * - startedAt: When this process started serving (ISO 8601)
+ */
+export interface BuildInfo {
+  version: string;
+  commit: string | null;
+  node: string;
+  startedAt: string;
+}
+
+/**
+ * Read the build info of the app in a directory
+ *
+ * @param root - Directory holding package.json (the project root)
+ * @param commit - Commit the build was made from (BUILD_COMMIT)
+ */
+export function readBuildInfo(root: string, commit?: string): BuildInfo {
+  const { version } = JSON.parse(readFileSync(resolve(root, "package.json"), "utf-8")) as { version: string };
+  return { version, commit: commit ?? null, node: process.version, startedAt: new Date().toISOString() };
+}
+
+/**
+ * Result of one readiness check
+ * - error: Why the check failed
+ * - checkedAt: When the result was produced (cached content probes are
+ *   older than the request)
+ */
+export interface CheckResult {
+  status: "ok" | "fail";
+  error?: string;
+  checkedAt: string;
+}
+
+/**
+ * Run a check, turning a throw (or rejection) into a failed result
+ */
+async function runCheck(check: () => unknown): Promise<CheckResult> {
+  try {
+    await check();
+    return { status: "ok", checkedAt: new Date().toISOString() };
+  } catch (error) {
+    return {
+      status: "fail",
+      error: error instanceof Error ? error.message : String(error),
+      checkedAt: new Date().toISOString(),
+    };
+  }
+}
+
+/**
+ * Create the content provider probe
+ *
+ * HOW IT WORKS:
+ * - Fetches the home page through the SSR module (the same code path as a
+ *   render - a missing entry is fine, an unreachable provider is not)
+ * - Gives up after CONTENT_PROBE_TIMEOUT, so a hanging CMS fails the check
+ *   instead of the probe
+ * - Reuses the result for ttl seconds; concurrent probes share one query
+ *
+ * @param renderer - Loads the SSR module
+ * @param ttl - Seconds a result is reused (0: probe on every call)
+ */
+export function createContentProbe(renderer: FragmentRenderer, ttl: number): () => Promise<CheckResult> {
+  let cached: { result: Promise<CheckResult>; expiresAt: number } | undefined;
+
+  const probe = () =>
+    runCheck(async () => {
+      const ssrModule = await renderer.load();
+      let timer: NodeJS.Timeout | undefined;
+      const timeout = new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`Content provider didn't answer within ${CONTENT_PROBE_TIMEOUT / 1000}s`)),
+          CONTENT_PROBE_TIMEOUT
+        );
+      });
+      try {
+        await Promise.race([ssrModule.fetchRouteContent("/"), timeout]);
+      } finally {
+        clearTimeout(timer);
+      }
+    });
+
+  return () => {
+    const now = Date.now();
+    if (!cached || now >= cached.expiresAt) {
+      const result = probe();
+      cached = { result, expiresAt: Infinity };
+      // The ttl starts once the probe has answered
+      void result.then(() => {
+        if (cached?.result === result) cached.expiresAt = Date.now() + ttl * 1000;
+      });
+    }
+    return cached.result;
+  };
+}
+
+/**
+ * Options for the health routes
+ * - mode / config: Reported by GET /health
+ * - renderer / assets: What readiness checks (see FragmentRenderer, FragmentAssetSource)
+ * - build: Reported by GET /health and GET /health/ready (see readBuildInfo)
+ * - signal: Aborted when a graceful shutdown starts (readiness → 503)
+ */
+export interface HealthRoutesOptions {
+  mode: ServerMode;
+  config: ServerConfig;
+  renderer: FragmentRenderer;
+  assets: FragmentAssetSource;
+  build: BuildInfo;
+  signal?: AbortSignal;
+}
+
+/**
+ * Create the health check routes (GET /health, /health/live, /health/ready)
+ *
+ * RESPONSES (never cached - Cache-Control: no-store):
+ * - /health: 200 { status: "ok", mode, previewMode, config, build }
+ * - /health/live: 200 { status: "ok" }
+ * - /health/ready: 200 { status: "ready", checks, build } when every check
+ *   passes, 503 { status: "unavailable", checks, build } when one fails,
+ *   503 { status: "shutting down", build } while draining
+ *
+ * EXAMPLE (GET /health/ready, Contentstack unreachable):
+ * 503 {
+ *   "status": "unavailable",
+ *   "checks": {
+ *     "ssr": { "status": "ok", "checkedAt": "..." },
+ *     "assets": { "status": "ok", "checkedAt": "..." },
+ *     "content": { "status": "fail", "error": "Contentstack request failed", "checkedAt": "..." }
+ *   },
+ *   "build": { "version": "1.0.0", "commit": "4f2a9c1", ... }
+ * }
+ */
+export function createHealthRouter({ mode, config, renderer, assets, build, signal }: HealthRoutesOptions): Router {
+  const probeContent = createContentProbe(renderer, config.healthProbeTtl);
+  const router = express.Router();
+
+  router.use("/health", (_req, res, next) => {
+    res.set("Cache-Control", "no-store");
+    next();
+  });
+
+  router.get("/health", (_req, res) => {
+    res.json({
+      status: "ok",
+      mode,
+      previewMode: config.contentstack.preview,
+      config: getPublicConfig(config),
+      build,
+    });
+  });
+
+  router.get("/health/live", (_req, res) => {
+    res.json({ status: "ok" });
+  });
+
+  router.get("/health/ready", async (_req, res) => {
+    if (signal?.aborted) {
+      res.status(503).json({ status: "shutting down", build });
+      return;
+    }
+
+    const [ssr, assetsCheck, content] = await Promise.all([
+      runCheck(async () => {
+        const ssrModule = await renderer.load();
+        if (typeof ssrModule.render !== "function") throw new Error("SSR module has no render function");
+      }),
+      runCheck(() => assets.check?.()),
+      probeContent(),
+    ]);
+    const checks = { ssr, assets: assetsCheck, content };
+    const ready = Object.values(checks).every((check) => check.status === "ok");
+
+    res.status(ready ? 200 : 503).json({ status: ready ? "ready" : "unavailable", checks, build });
+  });
+
+  return router;
+}
@@ -0,0 +1,103 @@
+/**
+ * Server-rendered live preview (Visual Builder)
+ *
+ * WHAT THIS DOES:
+ * - Reads the live preview parameters Contentstack adds to the preview
+ *   iframe URL (live_preview, content_type_uid, entry_uid, preview_timestamp)
+ * - The SSR module fetches the draft with them (stack.livePreviewQuery), so
+ *   the iframe shows server-rendered markup with editable tags right away
+ *
+ * TIMELINE / RELEASE PREVIEW:
+ * - preview_timestamp: Content as it will be published at that date
+ *   (Timeline, e.g., "2026-12-01T09:00:00.000Z")
+ * - release_id: Content as it will be once the release is deployed
+ * - Both only count with a live_preview hash, and are sent to the preview
+ *   host with the preview token - never to the delivery CDN
+ * - The page shows a banner naming the date / release (see PreviewBanner)
+ *
+ * REQUIREMENTS:
+ * - CONTENTSTACK_PREVIEW=true and CONTENTSTACK_PREVIEW_TOKEN (drafts,
+ *   editable tags, Timeline and releases)
+ * - CONTENTSTACK_PREVIEW_SSR=true, so the client reloads the iframe on
+ *   edits instead of refetching (see initLivePreview)
+ * - The host forwards the query string to the fragment server
+ *
+ * Preview responses bypass every cache (fragment cache, CDN, browser).
+ */
+
+import type { Request } from "express";
+import type { ServerConfig } from "./config.js";
+import type { PreviewQuery, PreviewTimeline } from "./types.js";
+
+/**
+ * Whether server-rendered preview is enabled (see server/config.ts)
+ * - CONTENTSTACK_PREVIEW: "true" turns preview mode on
+ * - CONTENTSTACK_PREVIEW_TOKEN: Required - the server won't start without
+ *   it, except with fixture content (no drafts: preview parameters are
+ *   ignored and published content is served)
+ */
+export function isPreviewEnabled({ contentstack }: ServerConfig): boolean {
+  return contentstack.preview && !!contentstack.previewToken;
+}
+
+/** Release uids are alphanumeric (e.g., "blt1a2b3c4d5e6f7g8h") */
+const RELEASE_ID_PATTERN = /^[a-z0-9_-]+$/i;
+
+/**
+ * Live preview session hashes are 32 hex digits, plain or as a UUID
+ * (e.g., "3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f")
+ * - Anything else is not a preview request: it gets published content from
+ *   the cache, so a made-up ?live_preview=x can't bypass the cache or make
+ *   the server query Contentstack with its preview token
+ */
+const PREVIEW_HASH_PATTERN = /^[0-9a-f]{8}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{4}-?[0-9a-f]{12}$/i;
+
+/**
+ * Read the live preview parameters of a request
+ *
+ * @param req - Incoming request
+ * @param enabled - Whether preview mode is on (see isPreviewEnabled)
+ * @returns The parameters, or undefined when preview is off or the request
+ *   has no valid live_preview hash (see PREVIEW_HASH_PATTERN - invalid
+ *   timestamps and release ids are dropped)
+ *
+ * EXAMPLE:
+ * - "/about?live_preview=3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f&content_type_uid=page&entry_uid=blt123"
+ *   → { live_preview: "3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f", content_type_uid: "page", entry_uid: "blt123" }
+ * - "/about?live_preview=3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f&release_id=blt456"
+ *   → { live_preview: "3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f", release_id: "blt456" }
+ */
+export function getPreviewQuery(req: Request, enabled: boolean): PreviewQuery | undefined {
+  const param = (name: string) => {
+    const value = req.query[name];
+    return typeof value === "string" ? value : undefined;
+  };
+
+  const hash = param("live_preview");
+  if (!enabled || !hash || !PREVIEW_HASH_PATTERN.test(hash)) return undefined;
+
+  const timestamp = param("preview_timestamp");
+  const releaseId = param("release_id");
+  const query: PreviewQuery = {
+    live_preview: hash,
+    content_type_uid: param("content_type_uid"),
+    entry_uid: param("entry_uid"),
+    preview_timestamp: timestamp && !Number.isNaN(Date.parse(timestamp)) ? timestamp : undefined,
+    release_id: releaseId && RELEASE_ID_PATTERN.test(releaseId) ? releaseId : undefined,
+  };
+
+  // The SDK sends a header for every key present, even undefined ones
+  return Object.fromEntries(Object.entries(query).filter(([, value]) => value !== undefined)) as PreviewQuery;
+}
+
+/**
+ * Timeline / release of a preview request, for the preview banner
+ *
+ * @returns The timestamp and release id, or undefined when the request
+ *   previews the current state (or isn't a preview)
+ */
+export function getPreviewTimeline(preview: PreviewQuery | undefined): PreviewTimeline | undefined {
+  if (!preview?.preview_timestamp && !preview?.release_id) return undefined;
+  const { preview_timestamp, release_id } = preview;
+  return { preview_timestamp, release_id };
+}
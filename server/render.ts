@@ -0,0 +1,208 @@
+/**
+ * Page rendering shared by the dev and production servers
+ *
+ * WHAT THIS DOES:
+ * - Fetches the content for a slug and locale through the SSR module
+ * - Decides the HTTP status (200 found, 404 not found)
+ * - Renders the React tree to HTML (the content API skips this step, see
+ *   fetchPageContent)
+ * - Looks up the entry's URL in the other locales (hreflang alternates)
+ *
+ * STATUS CODES:
+ * - 200: Entry found and rendered
+ * - 404: No entry for the slug - renders the CMS-managed "404 page" when
+ *   configured (CONTENTSTACK_NOT_FOUND_URL), otherwise the built-in message
+ * - 503 / 500: Not returned here - ContentUnavailableError and render errors
+ *   are thrown, and the route handlers map them (see isContentUnavailableError)
+ *
+ * STREAMING (?stream=true or X-Fragment-Stream: true):
+ * - The shell is flushed before content is fetched, the page streams in
+ * - Headers are sent with the shell, so the status is always 200 and the
+ *   response bypasses the fragment cache; hosts that need 404/503,
+ *   ETags or alternate-locale links should use the buffered (default) mode
+ */
+
+import { Writable } from "node:stream";
+import type { Request, Response } from "express";
+import { renderContentScript, renderRootOpenTag, type EmbedOptions } from "./fragment.js";
+import { getPreviewTimeline } from "./preview.js";
+import type { AlternateLink, ContentContext, PageContent, PreviewQuery, RenderedPage, SSRModule } from "./types.js";
+
+/**
+ * Abort a streaming render that hasn't finished after this many ms
+ * (unfinished boundaries are then rendered on the client)
+ */
+const STREAM_TIMEOUT_MS = 10_000;
+
+/**
+ * Whether the request asked for a streaming render
+ *
+ * SWITCHES:
+ * - ?stream=true (or ?stream=1)
+ * - X-Fragment-Stream: true
+ */
+export function wantsStream(req: Request): boolean {
+  const value = req.get("X-Fragment-Stream") ?? req.query.stream;
+  return value === "true" || value === "1";
+}
+
+/**
+ * Fetch and render the page for a slug
+ *
+ * @param ssrModule - Loaded entry-server module
+ * @param slug - URL path without locale prefix (e.g., "/about")
+ * @param locale - Locale of the request (see resolveLocale)
+ * @param preview - Live preview parameters (server-rendered preview, see server/preview.ts)
+ * @returns Content, SSR markup, status, alternate-locale links and the
+ *   previewed timeline / release (if any)
+ */
+export async function renderPage(
+  ssrModule: SSRModule,
+  slug: string,
+  locale: string,
+  preview?: PreviewQuery
+): Promise<RenderedPage> {
+  const context: ContentContext = { locale, preview };
+  const timeline = getPreviewTimeline(preview);
+  const { content, status } = await fetchPageEntry(ssrModule, slug, context);
+
+  // Rendered for the slug (not the full URL) so the result is shareable
+  // (the locale comes from props, whether or not the URL had a prefix)
+  const [{ html, modules }, alternates] = await Promise.all([
+    ssrModule.render(slug, { content, locale, timeline }),
+    fetchPageAlternates(ssrModule, slug, content, status),
+  ]);
+
+  return { content, html, status, modules, slug, locale, alternates, timeline };
+}
+
+/**
+ * Fetch the content for a slug without rendering it (GET /api/content)
+ *
+ * @param ssrModule - Loaded entry-server module
+ * @param slug - URL path without locale prefix (e.g., "/about")
+ * @param locale - Locale of the request (see resolveLocale)
+ * @param preview - Live preview parameters (see server/preview.ts)
+ * @returns What renderPage returns, minus the markup
+ */
+export async function fetchPageContent(
+  ssrModule: SSRModule,
+  slug: string,
+  locale: string,
+  preview?: PreviewQuery
+): Promise<PageContent> {
+  const { content, status } = await fetchPageEntry(ssrModule, slug, { locale, preview });
+  const alternates = await fetchPageAlternates(ssrModule, slug, content, status);
+  return { content, status, slug, locale, alternates, timeline: getPreviewTimeline(preview) };
+}
+
+/**
+ * The entry for a slug - or, with status 404, the CMS "404 page"
+ */
+async function fetchPageEntry(
+  ssrModule: SSRModule,
+  slug: string,
+  context: ContentContext
+): Promise<{ content: unknown; status: number }> {
+  const content = await ssrModule.fetchRouteContent(slug, context);
+  return content ? { content, status: 200 } : { content: await ssrModule.fetchNotFoundPage(context), status: 404 };
+}
+
+/**
+ * The entry's URL in every locale (hreflang)
+ * - A 404 has no alternates: the "404 page" isn't the requested content
+ */
+function fetchPageAlternates(
+  ssrModule: SSRModule,
+  slug: string,
+  content: unknown,
+  status: number
+): Promise<AlternateLink[]> {
+  return status === 200 ? ssrModule.fetchAlternates(content, slug) : Promise.resolve([]);
+}
+
+/**
+ * Options for streaming a page
+ * - slug / locale: URL path (without locale prefix) and locale to fetch content for
+ * - preview: Live preview parameters (server-rendered preview)
+ * - id / url: Fragment root id and URL (see server/fragment.ts)
+ * - tail: Markup written after the content script (asset tags, dev scripts),
+ *   built once the render is done so it can include the rendered modules
+ * - nonce / stateFormat: How the content script is embedded (see EmbedOptions);
+ *   the nonce is also passed to React for its streaming scripts
+ */
+export interface StreamPageOptions extends EmbedOptions {
+  slug: string;
+  locale: string;
+  preview?: PreviewQuery;
+  id: string;
+  url: string;
+  tail: (modules: string[]) => string;
+}
+
+/**
+ * Stream the page for a slug into the response
+ *
+ * FLOW:
+ * 1. Start fetching content (not awaited - passed to React as a promise)
+ * 2. Wait for the shell, then send headers and the fragment root opening tag
+ * 3. Pipe React's output; the page streams in when the content arrives
+ * 4. Close the root, then write the initial content script and the tail
+ *
+ * @throws When the shell fails (nothing has been sent yet - answer 500)
+ */
+export async function streamPage(
+  ssrModule: SSRModule,
+  res: Response,
+  { slug, locale, preview, id, url, tail, ...embed }: StreamPageOptions
+): Promise<void> {
+  // Missing entry → CMS "404 page" (status can't change once streaming starts)
+  const context: ContentContext = { locale, preview };
+  const timeline = getPreviewTimeline(preview);
+  const contentPromise = ssrModule
+    .fetchRouteContent(slug, context)
+    .then((content) => content ?? ssrModule.fetchNotFoundPage(context));
+  // Failures surface through React (onError); avoid an unhandled rejection here
+  contentPromise.catch(() => undefined);
+
+  const stream = await ssrModule.render(slug, { contentPromise, locale, timeline }, { stream: true, nonce: embed.nonce });
+
+  try {
+    await stream.shellReady;
+  } catch (error) {
+    stream.abort();
+    throw error;
+  }
+
+  res.status(200).set({
+    "Content-Type": "text/html; charset=utf-8",
+    "Content-Language": locale,
+    "Cache-Control": "no-store",
+  });
+  res.write(renderRootOpenTag(id, url, locale, "none", timeline));
+
+  // Forward React's chunks to the response, but keep it open at the end
+  // so the root can be closed and the content script appended
+  const destination = new Writable({
+    write(chunk, encoding, callback) {
+      res.write(chunk, encoding, callback);
+    },
+    final(callback) {
+      contentPromise
+        .catch(() => null)
+        .then((content) => {
+          res.end(`</div>\n${renderContentScript(id, content, embed)}\n${tail(stream.modules)}`);
+          callback();
+        });
+    },
+  });
+
+  const timeout = setTimeout(() => stream.abort(new Error("Streaming render timed out")), STREAM_TIMEOUT_MS);
+  res.on("close", () => {
+    clearTimeout(timeout);
+    // Client went away before we finished - stop rendering
+    if (!res.writableFinished) stream.abort();
+  });
+
+  stream.pipe(destination);
+}
@@ -0,0 +1,126 @@
+/**
+ * Graceful shutdown - finish in-flight requests before exiting
+ *
+ * WHAT THIS DOES (on SIGTERM / SIGINT):
+ * 1. Aborts the shutdown signal: GET /health/ready answers 503, so the
+ *    load balancer stops sending traffic (see server/health.ts)
+ * 2. Keeps serving for FRAGMENT_SHUTDOWN_DELAY seconds, while the load
+ *    balancer notices (its readiness probes fail)
+ * 3. Stops accepting connections and closes idle keep-alive ones
+ * 4. Waits for in-flight requests - buffered and streaming renders - to
+ *    finish, then exits with code 0
+ * 5. After FRAGMENT_SHUTDOWN_TIMEOUT seconds, closes whatever is left and
+ *    exits with code 1; a second signal exits right away
+ *
+ * WHY?
+ * - Kubernetes sends SIGTERM on every rollout and scale-down; exiting
+ *   immediately would cut off renders the host page is waiting for
+ * - Endpoints are removed asynchronously: requests keep arriving for a few
+ *   seconds after SIGTERM, and a server that already closed would refuse them
+ *
+ * NOTE: Background cache refreshes (stale-while-revalidate) aren't waited
+ * for - nobody is waiting on them, and the cache goes away with the process.
+ */
+
+import type { Server } from "node:http";
+
+/**
+ * Count the requests a server is handling (for the shutdown log)
+ * - A request counts until its response is finished or its connection closes
+ */
+function trackInFlight(server: Server): () => number {
+  let inFlight = 0;
+  server.on("request", (_req, res) => {
+    inFlight++;
+    res.once("close", () => inFlight--);
+  });
+  return () => inFlight;
+}
+
+/**
+ * Stop a server and wait for its in-flight requests
+ *
+ * @param server - Listening HTTP server
+ * @param timeout - Milliseconds to wait before closing every connection
+ * @returns true when every request finished, false when the timeout hit
+ */
+export function drainServer(server: Server, timeout: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      server.closeAllConnections();
+      resolve(false);
+    }, timeout);
+
+    // close() stops accepting connections and closes idle keep-alive
+    // ones; its callback runs once the last active one is done
+    server.close(() => {
+      clearTimeout(timer);
+      resolve(true);
+    });
+    server.closeIdleConnections();
+  });
+}
+
+/**
+ * Options for shutdownServer and handleShutdownSignals
+ * - shutdown: Aborted when the shutdown starts (pass its signal to
+ *   createFragmentApp, so readiness reports the shutdown)
+ * - delay: Seconds the server keeps serving before it stops accepting
+ *   connections (FRAGMENT_SHUTDOWN_DELAY)
+ * - timeout: Seconds in-flight requests get (FRAGMENT_SHUTDOWN_TIMEOUT)
+ * - log: Writes one log line (defaults to console.log)
+ */
+export interface ShutdownOptions {
+  shutdown: AbortController;
+  delay: number;
+  timeout: number;
+  log?: (message: string) => void;
+}
+
+/**
+ * Shut a server down gracefully: report it, wait `delay`, then drain
+ *
+ * @param server - Listening HTTP server
+ * @returns true when every request finished, false when the timeout hit
+ */
+export async function shutdownServer(
+  server: Server,
+  { shutdown, delay, timeout, log = console.log }: ShutdownOptions
+): Promise<boolean> {
+  shutdown.abort();
+  if (delay > 0) {
+    log(`Readiness failing - still serving for ${delay}s`);
+    await new Promise((resolve) => setTimeout(resolve, delay * 1000));
+  }
+  return drainServer(server, timeout * 1000);
+}
+
+/**
+ * Shut the server down gracefully on SIGTERM and SIGINT
+ *
+ * USAGE:
+ * const shutdown = new AbortController();
+ * const app = createFragmentApp({ ..., signal: shutdown.signal });
+ * const server = app.listen(port);
+ * handleShutdownSignals(server, { shutdown, delay: config.shutdownDelay, timeout: config.shutdownTimeout });
+ */
+export function handleShutdownSignals(server: Server, options: ShutdownOptions): void {
+  const { shutdown, timeout, log = console.log } = options;
+  const getInFlight = trackInFlight(server);
+
+  const onSignal = async (signal: NodeJS.Signals) => {
+    if (shutdown.signal.aborted) {
+      log(`${signal} again - exiting now`);
+      process.exit(1);
+    }
+
+    log(`${signal} received - ${getInFlight()} in-flight request(s), draining up to ${timeout}s`);
+
+    const drained = await shutdownServer(server, options);
+    log(drained ? "Shutdown complete" : `Shutdown timed out after ${timeout}s - closed remaining connections`);
+    process.exit(drained ? 0 : 1);
+  };
+
+  process.on("SIGTERM", onSignal);
+  process.on("SIGINT", onSignal);
+}
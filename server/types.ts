@@ -2,11 +2,13 @@
  * Shared types for dev and production servers
  *
  * These types define the contracts between:
- * - Server code (dev.ts, index.ts)
+ * - Server code (app.ts, and the dev.ts / index.ts entry points)
  * - SSR entry point (entry-server.tsx)
  * - Vite build manifest
  */
 
+import type { RequestHandler } from "express";
+
 /**
  * Result of rendering a React component tree to HTML
  *
@@ -14,6 +16,130 @@
  */
 export interface RenderResult {
   html: string;
+  /** Manifest keys of lazily loaded modules the page rendered (preload hints) */
+  modules: string[];
+}
+
+/**
+ * Handle for a streaming render (renderToPipeableStream)
+ *
+ * Returned by entry-server.tsx's render() when called with { stream: true }
+ * - modules: Lazily loaded modules rendered so far (see RenderResult)
+ * - shellReady: Resolves when the shell can be sent (rejects on shell errors)
+ * - allReady: Resolves when every Suspense boundary has rendered
+ * - pipe: Writes HTML into a writable stream and ends it when done
+ * - abort: Stops rendering (e.g., client disconnected or timeout)
+ */
+export interface StreamRenderResult {
+  /** Filled while rendering - complete once the stream has ended */
+  modules: string[];
+  shellReady: Promise<void>;
+  allReady: Promise<void>;
+  pipe<Writable extends NodeJS.WritableStream>(destination: Writable): Writable;
+  abort(reason?: unknown): void;
+}
+
+/**
+ * Props passed to render()
+ * - content: Pre-fetched content (buffered rendering)
+ * - contentPromise: Content still being fetched (streaming rendering)
+ * - locale: Locale of the request (see resolveLocale)
+ * - timeline: Timeline / release being previewed (see server/preview.ts)
+ */
+export interface RenderProps {
+  content?: unknown;
+  contentPromise?: Promise<unknown>;
+  locale?: string;
+  timeline?: PreviewTimeline;
+}
+
+/**
+ * Locale of a request and the content path to fetch
+ * (e.g., "/fr-fr/about" → { locale: "fr-fr", pathname: "/about" })
+ */
+export interface ResolvedLocale {
+  locale: string;
+  pathname: string;
+}
+
+/**
+ * Live preview parameters of a preview request (see server/preview.ts)
+ * - live_preview: Preview session hash (the CMS adds it to the iframe URL)
+ * - content_type_uid / entry_uid: Entry being edited
+ * - preview_timestamp: Point in time the content is shown at (Timeline,
+ *   ISO 8601 - e.g., "2026-12-01T09:00:00.000Z")
+ * - release_id: Release whose content is shown (scheduled releases)
+ *
+ * EXAMPLE:
+ * /about?live_preview=3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f&content_type_uid=page&entry_uid=blt123
+ * → { live_preview: "3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f", content_type_uid: "page", entry_uid: "blt123" }
+ *
+ * NOTE: The app (src/) uses these request types too - this module imports
+ * nothing at runtime, so the client build can share it.
+ */
+export interface PreviewQuery {
+  live_preview: string;
+  content_type_uid?: string;
+  entry_uid?: string;
+  preview_timestamp?: string;
+  release_id?: string;
+}
+
+/**
+ * Point in time a preview shows (Timeline date and/or release)
+ */
+export type PreviewTimeline = Pick<PreviewQuery, "preview_timestamp" | "release_id">;
+
+/**
+ * What a request asks content for (besides the URL)
+ * - locale: Locale to fetch (falls back along its configured chain);
+ *   master locale when unset
+ * - preview: Live preview parameters - fetches drafts instead of published content
+ */
+export interface ContentContext {
+  locale?: string;
+  preview?: PreviewQuery;
+}
+
+/**
+ * The same content in another locale, for hreflang links
+ * (e.g., { locale: "fr-fr", href: "/fr-fr/a-propos" })
+ */
+export interface AlternateLink {
+  locale: string;
+  href: string;
+}
+
+/**
+ * Content for one slug and locale, as stored in the content API cache
+ * (see server/api.ts - nothing is rendered)
+ *
+ * - content: Entry returned by fetchRouteContent (the "404 page" or null for 404s)
+ * - status: HTTP status to answer with (200, or 404 when the slug has no entry)
+ * - slug / locale: Content path (without locale prefix) and locale the content was fetched for
+ * - alternates: The entry's URL in every locale it's published in (empty for 404s)
+ * - timeline: Timeline / release the content was previewed at (preview
+ *   requests only - those are never cached)
+ */
+export interface PageContent {
+  content: unknown;
+  status: number;
+  slug: string;
+  locale: string;
+  alternates: AlternateLink[];
+  timeline?: PreviewTimeline;
+}
+
+/**
+ * Content and markup for one slug and locale, as stored in the fragment cache
+ *
+ * - PageContent fields: The content the page was rendered from (embedded for hydration)
+ * - html: SSR markup rendered from that content
+ * - modules: Lazily loaded modules the page rendered (preload hints)
+ */
+export interface RenderedPage extends PageContent {
+  html: string;
+  modules: string[];
 }
 
 /**
@@ -26,48 +152,87 @@ export interface RenderResult {
  *
  * WHY THIS TYPE?
  * - TypeScript needs to know what the module exports
- * - Ensures render() and fetchPageBySlug() exist
+ * - Ensures render() and fetchRouteContent() exist
  * - Provides type safety when calling these functions
  */
 export interface SSRModule {
   /**
-   * Render a React component tree to HTML string
+   * Render a React component tree to HTML
    * @param url - URL path to render (e.g., "/about")
-   * @param props - Optional props including pre-fetched content
+   * @param props - Optional props including pre-fetched (or pending) content
+   * @param options - { stream: true } switches to a streaming render
+   *   (nonce: CSP nonce for the inline scripts React streams)
+   *
+   * MODES:
+   * - Buffered (default): resolves with the full HTML string
+   * - Streaming: resolves with a StreamRenderResult; the shell flushes first
+   *   and Suspense boundaries stream in as content arrives
    */
-  render: (url: string, props?: { content?: unknown }) => Promise<RenderResult>;
+  render: {
+    (url: string, props?: RenderProps, options?: { stream?: false }): Promise<RenderResult>;
+    (url: string, props: RenderProps, options: { stream: true; nonce?: string }): Promise<StreamRenderResult>;
+  };
 
   /**
-   * Fetch page content from Contentstack
-   * @param slug - URL path (e.g., "/about")
-   * @param contentType - Optional content type override
+   * Fetch the entry a URL path routes to (any routed content type)
+   * @param slug - URL path without locale prefix (e.g., "/about", "/blog/hello-world")
+   * @param context - Locale and live preview parameters
    */
-  fetchPageBySlug: (slug: string, contentType?: string) => Promise<unknown>;
+  fetchRouteContent: (slug: string, context?: ContentContext) => Promise<unknown>;
+
+  /**
+   * Fetch the CMS-managed "404 page" (null when not configured or missing)
+   * @param context - Locale and live preview parameters
+   */
+  fetchNotFoundPage: (context?: ContentContext) => Promise<unknown>;
+
+  /**
+   * Resolve the locale of a request
+   * @param pathname - URL path, possibly locale-prefixed (e.g., "/fr-fr/about")
+   * @param hints - X-Fragment-Locale (requested) and Accept-Language headers
+   */
+  resolveLocale: (pathname: string, hints?: { requested?: string; acceptLanguage?: string }) => ResolvedLocale;
+
+  /**
+   * Find an entry's URL in every locale it's published in
+   * @param content - Entry returned by fetchRouteContent
+   * @param slug - URL path without locale prefix
+   */
+  fetchAlternates: (content: unknown, slug: string) => Promise<AlternateLink[]>;
 }
 
 /**
  * Single entry in Vite's build manifest
  *
  * WHAT IT CONTAINS:
- * - file: Built asset filename (with hash)
- * - css: CSS files associated with this entry
- * - imports: Other modules imported by this entry
+ * - file: Built asset path relative to the client build (with hash)
+ * - name: Chunk name (optional)
  * - src: Original source file path (optional)
  * - isEntry: Whether this is an entry point (optional)
+ * - isDynamicEntry: Whether this chunk is loaded via import() (optional)
+ * - css: CSS files belonging to this chunk
+ * - assets: Other files referenced by this chunk (fonts, images)
+ * - imports: Manifest keys of statically imported chunks
+ * - dynamicImports: Manifest keys of chunks loaded via import()
  *
  * EXAMPLE:
  * {
  *   "file": "assets/entry-client-abc123.js",
  *   "css": ["assets/entry-client-def456.css"],
- *   "imports": ["src/App.tsx"]
+ *   "imports": ["_vendor-789xyz.js"],
+ *   "dynamicImports": ["src/components/BlockComponent.tsx"]
  * }
  */
 export interface ManifestEntry {
   file: string;
+  name?: string;
   src?: string;
   isEntry?: boolean;
+  isDynamicEntry?: boolean;
   css?: string[];
+  assets?: string[];
   imports?: string[];
+  dynamicImports?: string[];
 }
 
 /**
@@ -85,3 +250,121 @@ export interface ManifestEntry {
 export interface Manifest {
   [key: string]: ManifestEntry;
 }
+
+/**
+ * Stylesheet or preload link for a fragment
+ * - integrity: SRI hash (production builds only)
+ */
+export interface AssetLink {
+  href: string;
+  integrity?: string;
+}
+
+/**
+ * Script for a fragment
+ * - src: External module script (built entry, Vite client in dev)
+ * - content: Inline module script (only the dev React Refresh preamble)
+ * - integrity: SRI hash of the external script (production builds only)
+ */
+export interface ScriptAsset {
+  type: "module";
+  src?: string;
+  content?: string;
+  integrity?: string;
+}
+
+/**
+ * Every asset a fragment needs, grouped by where a host would put it
+ * - css: <link rel="stylesheet"> (in <head>)
+ * - modulepreload: <link rel="modulepreload"> (in <head>)
+ * - scripts: <script type="module"> (before </body>)
+ */
+export interface FragmentAssets {
+  css: AssetLink[];
+  modulepreload: AssetLink[];
+  scripts: ScriptAsset[];
+}
+
+/**
+ * Which entry point runs the app (reported by GET /health)
+ * - development: server/dev.ts - Vite compiles the app on every request
+ * - production: server/index.ts - pre-built bundles from dist/
+ */
+export type ServerMode = "development" | "production";
+
+/**
+ * How the app gets the SSR module (see createFragmentApp in server/app.ts)
+ * - load: Loads the entry-server module (dev: through Vite, prod: the built
+ *   bundle); called per request, so dev picks up source changes
+ * - fixStacktrace: Optional - rewrites an error's stack to point at source
+ *   files before it is logged (dev: vite.ssrFixStacktrace)
+ */
+export interface FragmentRenderer {
+  load: () => Promise<SSRModule>;
+  fixStacktrace?: (error: Error) => void;
+}
+
+/**
+ * Client assets of the app (see createFragmentApp in server/app.ts)
+ * - middleware: Serves the asset files (dev: Vite with HMR, prod: dist/client/assets)
+ * - getEntryAssets: Tags a fragment needs; modules are the lazily loaded
+ *   modules the page rendered (preload hints), shadow is true when the
+ *   fragment is rendered inside a shadow root
+ * - contentFragmentUrl: Script of the <content-fragment> element (null when
+ *   the build has none)
+ * - check: Optional - throws when the assets can no longer be served, e.g.,
+ *   the build on disk was replaced (GET /health/ready, see server/health.ts)
+ */
+export interface FragmentAssetSource {
+  middleware: RequestHandler;
+  getEntryAssets: (modules: string[], options: { shadow: boolean }) => FragmentAssets;
+  contentFragmentUrl: string | null;
+  check?: () => void;
+}
+
+/**
+ * Body of GET /api/content (see server/api.ts)
+ * - slug / locale: Content path (without locale prefix) and locale it was fetched for
+ * - status: 200, or 404 when the slug has no entry
+ * - content: The entry (404: the CMS "404 page", or null)
+ * - alternates: The same content in other locales
+ */
+export interface ContentResponse {
+  slug: string;
+  locale: string;
+  status: number;
+  content: unknown;
+  alternates: AlternateLink[];
+}
+
+/**
+ * JSON fragment envelope (?format=json or Accept: application/json)
+ *
+ * WHAT IT'S FOR:
+ * - Lets the host place each part itself: CSS/preloads in <head>,
+ *   markup where the fragment goes, scripts before </body>
+ *
+ * FIELDS:
+ * - id / url: Fragment root id and the URL it was rendered for
+ * - status: HTTP status of the fragment (200, 404)
+ * - html: Root element + initial content script (everything for the body slot)
+ * - css / modulepreload / scripts: Assets (same data as the HTML asset tags)
+ * - initialState: Content used for the render (also embedded in html)
+ * - locale: Locale the fragment was rendered for
+ * - alternates: The same content in other locales (for hreflang links)
+ * - cache: Caching metadata (mirrors the response headers)
+ */
+export interface FragmentEnvelope extends FragmentAssets {
+  id: string;
+  url: string;
+  status: number;
+  html: string;
+  initialState: unknown;
+  locale: string;
+  alternates: AlternateLink[];
+  cache: {
+    status: string;
+    cacheControl: string;
+    surrogateKeys: string[];
+  };
+}
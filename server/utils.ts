@@ -1,3 +1,5 @@
+import { createHash } from "node:crypto";
+
 /**
  * Extract pathname from URL (removes query string)
  *
@@ -41,3 +43,99 @@ export const serializeContent = (content: unknown): string => {
   // Escape < to prevent XSS (</script> would break out of script tag)
   return JSON.stringify(plain).replace(/</g, "\\u003c");
 };
+
+/**
+ * Escape a string for use in HTML text or a double-quoted attribute
+ *
+ * @param value - Raw string (e.g., a URL taken from the request)
+ * @returns String with &, <, >, " and ' replaced by entities
+ *
+ * EXAMPLE:
+ * - '/search?q="a"&b=1' → '/search?q=&quot;a&quot;&amp;b=1'
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Render a nonce attribute for an inline or external tag
+ *
+ * @param nonce - CSP nonce from the host (see getCspNonce in server/fragment.ts)
+ * @returns ' nonce="..."' (leading space) or "" when there is no nonce
+ */
+export const renderNonceAttribute = (nonce?: string): string =>
+  nonce ? ` nonce="${escapeHtml(nonce)}"` : "";
+
+/**
+ * Create a strong ETag from a response body
+ *
+ * WHAT THIS DOES:
+ * - Hashes the exact bytes that will be sent (SHA-1, base64url)
+ * - Same body → same ETag, so clients and CDNs can revalidate with If-None-Match
+ *
+ * @param body - Response body
+ * @returns Quoted ETag value (e.g., "\"Xy3...\"")
+ */
+export const createETag = (body: string): string =>
+  `"${createHash("sha1").update(body).digest("base64url")}"`;
+
+/**
+ * Read the uid of a Contentstack entry returned by the SSR module
+ *
+ * @param content - Entry (typed as unknown on the server) or null
+ * @returns The entry uid, or undefined when there is no entry
+ */
+export const getEntryUid = (content: unknown): string | undefined =>
+  content && typeof content === "object" && "uid" in content && typeof content.uid === "string"
+    ? content.uid
+    : undefined;
+
+/**
+ * Collect every uid found in a content tree
+ *
+ * WHAT THIS DOES:
+ * - Walks objects and arrays recursively
+ * - Returns the uid of the entry itself plus any referenced entries/assets
+ *
+ * WHY?
+ * - A cached fragment must be purged when any entry it was built from
+ *   changes, not just the page itself
+ *
+ * EXAMPLE:
+ * - { uid: "blt1", author: [{ uid: "blt2" }] } → ["blt1", "blt2"]
+ */
+export const collectUids = (content: unknown): string[] => {
+  const uids = new Set<string>();
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      const uid = getEntryUid(value);
+      if (uid) uids.add(uid);
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(content);
+  return [...uids];
+};
+
+/**
+ * Check whether an error means "content source unavailable"
+ *
+ * WHAT THIS DOES:
+ * - Recognizes ContentUnavailableError thrown by src/api/contentstack.ts
+ * - Matches by name because the SSR module is loaded separately from the
+ *   server (instanceof would compare against a different class object)
+ *
+ * @returns true → answer 503 with Retry-After (error.retryAfter seconds)
+ */
+export const isContentUnavailableError = (
+  error: unknown
+): error is Error & { retryAfter: number } =>
+  error instanceof Error &&
+  error.name === "ContentUnavailableError" &&
+  typeof (error as { retryAfter?: unknown }).retryAfter === "number";
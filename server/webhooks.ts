@@ -0,0 +1,219 @@
+/**
+ * Contentstack webhook - purges cached fragments when editors publish
+ *
+ * WHAT THIS DOES:
+ * - Receives Contentstack webhook calls (POST /webhooks/contentstack)
+ * - Verifies a shared secret so only Contentstack can trigger purges
+ * - Evicts the affected slug (in every locale) and every fragment that
+ *   references the entry
+ * - Emits a "purge" event that a CDN purge hook can subscribe to
+ *
+ * CONTENTSTACK SETUP (Settings > Webhooks):
+ * - URL: https://fragments.example.com/webhooks/contentstack
+ * - Custom header: X-Webhook-Secret: <CONTENTSTACK_WEBHOOK_SECRET>
+ *   (or HTTP Basic auth with the secret as password)
+ * - Channels: entries publish / unpublish / delete (assets optional)
+ *
+ * Recorded payloads live in fixtures/webhooks/.
+ */
+
+import { EventEmitter } from "node:events";
+import { createHash, timingSafeEqual } from "node:crypto";
+import type { Request, RequestHandler } from "express";
+import { getSlugTag, type FragmentCache } from "./cache.js";
+
+/** Events that change what a fragment renders */
+const PURGE_EVENTS = new Set(["publish", "unpublish", "delete"]);
+
+/**
+ * Shape of a Contentstack webhook body (only the fields we use)
+ *
+ * EXAMPLE (entry publish):
+ * {
+ *   "module": "entry",
+ *   "event": "publish",
+ *   "data": {
+ *     "entry": { "uid": "blt123", "url": "/about", "locale": "en-us" },
+ *     "content_type": { "uid": "page" },
+ *     "environment": { "name": "production" }
+ *   }
+ * }
+ */
+export interface ContentstackWebhookPayload {
+  module?: string;
+  event?: string;
+  triggered_at?: string;
+  data?: {
+    entry?: { uid?: string; url?: string; locale?: string };
+    asset?: { uid?: string };
+    content_type?: { uid?: string };
+    environment?: { name?: string };
+  };
+}
+
+/**
+ * What a webhook call asks us to purge
+ * - uid: Entry or asset uid (purges every fragment built from it)
+ * - slug: Entry URL (purges that slug directly, in every locale - locales
+ *   that fall back to this one render it too), for entries with a url field
+ */
+export interface PurgeTarget {
+  event: string;
+  module: "entry" | "asset";
+  contentType?: string;
+  uid: string;
+  slug?: string;
+  locale?: string;
+}
+
+/**
+ * Emitted after a purge
+ * - evicted: Cache keys removed from the in-process cache (e.g., "fr-fr:/about")
+ * - surrogateKeys: Keys to purge at the CDN (match the Surrogate-Key header)
+ */
+export interface PurgeEvent extends PurgeTarget {
+  evicted: string[];
+  surrogateKeys: string[];
+}
+
+/**
+ * Purge notifications
+ *
+ * USAGE (e.g., forward purges to a CDN):
+ * purgeEvents.on("purge", (event) => cdn.purgeByKeys(event.surrogateKeys));
+ */
+export const purgeEvents = new EventEmitter<{ purge: [PurgeEvent] }>();
+
+/**
+ * Turn a webhook body into a purge target
+ *
+ * @param body - Parsed JSON body
+ * @returns Purge target, or null when the payload needs no purge
+ *   (unsupported module/event, missing uid)
+ */
+export function parseWebhookPayload(body: unknown): PurgeTarget | null {
+  if (!body || typeof body !== "object") return null;
+  const { module, event, data } = body as ContentstackWebhookPayload;
+
+  if (!event || !PURGE_EVENTS.has(event)) return null;
+
+  if (module === "entry" && data?.entry?.uid) {
+    const contentType = data.content_type?.uid;
+    const url = data.entry.url;
+    return {
+      event,
+      module,
+      contentType,
+      uid: data.entry.uid,
+      // Routed entries are cached under their url (e.g., a newly published
+      // article replaces a cached 404); other entries only purge by uid
+      slug: url ? normalizeSlug(url) : undefined,
+      locale: data.entry.locale,
+    };
+  }
+
+  if (module === "asset" && data?.asset?.uid) {
+    return { event, module, uid: data.asset.uid };
+  }
+
+  return null;
+}
+
+/**
+ * Ensure a slug starts with "/" (matches getSlugFromUrl output)
+ */
+function normalizeSlug(url: string): string {
+  return url.startsWith("/") ? url : `/${url}`;
+}
+
+/**
+ * Check the shared secret on a webhook request
+ *
+ * ACCEPTED:
+ * - X-Webhook-Secret: <secret> (Contentstack "custom header")
+ * - Authorization: Basic base64(<any user>:<secret>) (Contentstack "basic auth")
+ *
+ * Compared in constant time (hashing first makes lengths equal).
+ */
+export function verifyWebhookSecret(req: Request, secret: string): boolean {
+  const provided = req.get("X-Webhook-Secret") ?? readBasicAuthPassword(req.get("Authorization"));
+  if (!provided) return false;
+
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(provided), digest(secret));
+}
+
+function readBasicAuthPassword(header?: string): string | undefined {
+  if (!header?.startsWith("Basic ")) return undefined;
+  const decoded = Buffer.from(header.slice(6), "base64").toString("utf-8");
+  const separator = decoded.indexOf(":");
+  return separator === -1 ? undefined : decoded.slice(separator + 1);
+}
+
+/**
+ * Options for the webhook handler
+ * - secret: Shared secret (CONTENTSTACK_WEBHOOK_SECRET); unset disables the route
+ * - caches: Caches to purge (fragment and content API caches)
+ * - events: Emitter to notify (defaults to purgeEvents)
+ */
+export interface WebhookHandlerOptions {
+  secret?: string;
+  caches: Pick<FragmentCache<unknown>, "invalidateTag">[];
+  events?: EventEmitter<{ purge: [PurgeEvent] }>;
+}
+
+/**
+ * Create the POST /webhooks/contentstack handler
+ *
+ * RESPONSES:
+ * - 503: No secret configured (route disabled)
+ * - 401: Missing or wrong secret
+ * - 202 { status: "ignored" }: Valid call, nothing to purge
+ * - 200 { status: "purged", ... }: Cache purged, event emitted
+ *
+ * NOTE: Expects a JSON body (mount after express.json()).
+ */
+export function createWebhookHandler({
+  secret,
+  caches,
+  events = purgeEvents,
+}: WebhookHandlerOptions): RequestHandler {
+  return (req, res) => {
+    if (!secret) {
+      res.status(503).json({ error: "Webhook secret not configured" });
+      return;
+    }
+
+    if (!verifyWebhookSecret(req, secret)) {
+      res.status(401).json({ error: "Invalid webhook secret" });
+      return;
+    }
+
+    const target = parseWebhookPayload(req.body);
+    if (!target) {
+      res.status(202).json({ status: "ignored" });
+      return;
+    }
+
+    // Evict the page itself, then every fragment that references the uid
+    const evicted = new Set<string>();
+    for (const cache of caches) {
+      if (target.slug) cache.invalidateTag(getSlugTag(target.slug)).forEach((key) => evicted.add(key));
+      cache.invalidateTag(target.uid).forEach((key) => evicted.add(key));
+    }
+
+    const event: PurgeEvent = {
+      ...target,
+      evicted: [...evicted],
+      surrogateKeys: target.slug ? [getSlugTag(target.slug), target.uid] : [target.uid],
+    };
+
+    console.log(
+      `Webhook ${target.module}.${target.event} (${target.contentType ?? target.module} ${target.uid}): ` +
+        `evicted ${event.evicted.length ? event.evicted.join(", ") : "nothing"}`
+    );
+    events.emit("purge", event);
+
+    res.json({ status: "purged", ...event });
+  };
+}
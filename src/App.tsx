@@ -9,53 +9,137 @@
  *
  * ARCHITECTURE:
  * - Server renders this with initialContent from Contentstack
+ *   (or a pending promise when streaming - see entry-server.tsx)
  * - Client hydrates and continues with live preview updates
- * - All routes go through the same Page component (slug-based routing)
+ * - The URL and the entry's content type pick the page component
+ *   (see the routing table in routes.tsx)
+ * - The URL's locale prefix (or the locale the fragment was rendered with)
+ *   is provided to every component (see useLocale)
+ * - Timeline / release previews are provided too (see usePreviewTimeline)
  */
 
-import { Routes, Route } from "react-router-dom";
+import { Suspense, use } from "react";
+import { Routes, Route, useLocation } from "react-router-dom";
 import { Page } from "./pages/Page";
+import { getContentRoute } from "./routes";
+import { EmbeddedItemsProvider } from "./components/RichText";
 import { useLivePreview } from "./hooks/useLivePreview";
-import type { Page as PageType } from "./api/contentstack";
+import { LocaleProvider } from "./hooks/useLocale";
+import { PreviewTimelineProvider } from "./hooks/usePreviewTimeline";
+import { resolveLocale } from "./api/locales";
+import type { BaseEntry, PreviewTimeline } from "./api/contentstack";
 import "./App.css";
 
 /**
  * Props for the App component
- * - initialContent: Content fetched on the server (SSR) or client (navigation)
+ * - content: Content fetched on the server (SSR) or client (navigation)
+ * - contentPromise: Content still being fetched (streaming SSR only);
+ *   the page suspends until it resolves while the shell is already sent
+ * - locale: Locale the content was fetched in (used when the URL has no
+ *   locale prefix, e.g., a locale chosen by header)
+ * - timeline: Timeline / release being previewed (preview requests only)
  */
 interface AppProps {
-  content?: PageType | null;
+  content?: BaseEntry | null;
+  contentPromise?: Promise<BaseEntry | null>;
+  locale?: string;
+  timeline?: PreviewTimeline;
 }
 
 /**
  * Root application component
  *
- * @param initialContent - Page content from server-side rendering or client fetch
+ * @param content - Entry from server-side rendering or client fetch
+ * @param contentPromise - Pending page content (streaming SSR)
+ * @param locale - Locale of the content (server: resolved per request;
+ *   client: read from the fragment root)
+ * @param timeline - Timeline / release being previewed (same sources as locale)
  *
  * HOW IT WORKS:
- * 1. Receives initialContent from server (SSR) or hook (client navigation)
- * 2. useLivePreview hook manages content state and live preview updates
- * 3. Routes all paths to the same Page component (slug-based routing)
- * 4. Page component handles rendering the actual content
+ * 1. Renders the shell (wrapper + Suspense boundary) right away
+ * 2. PageRoutes waits for content (only suspends when given a promise)
+ * 3. useLivePreview hook manages content state and live preview updates
+ * 4. ContentView renders the entry with its content type's page component
+ *
+ * WHY ALWAYS A SUSPENSE BOUNDARY?
+ * - Server (streaming or not) and client must render the same tree
+ *   structure, otherwise hydration doesn't line up
+ */
+export function App({ content, contentPromise, locale, timeline }: AppProps) {
+  return (
+    // Global styles applied to entire app
+    <div className="font-sans leading-relaxed text-slate-900">
+      <Suspense fallback={<PageFallback />}>
+        <PreviewTimelineProvider value={timeline}>
+          <PageRoutes content={content} contentPromise={contentPromise} locale={locale} />
+        </PreviewTimelineProvider>
+      </Suspense>
+    </div>
+  );
+}
+
+/**
+ * Routes for the page content
+ * - use(contentPromise) suspends until the content is fetched (streaming)
+ * - Without a promise, content is used directly (buffered SSR, client)
+ * - The locale prefix is split off the URL before routing ("/fr-fr/about"
+ *   renders "/about" in fr-fr)
  */
-export function App({ content: initialContent }: AppProps) {
+function PageRoutes({ content, contentPromise, locale: renderedLocale }: AppProps) {
+  const initialContent = contentPromise ? use(contentPromise) : content;
+  const location = useLocation();
+  const { locale, pathname } = resolveLocale(location.pathname, { requested: renderedLocale });
+
   // useLivePreview manages content state and enables live preview
   // - Uses initialContent on first render (from SSR)
   // - Fetches new content on route changes
   // - Auto-updates when content changes in Contentstack (if preview mode enabled)
-  const page = useLivePreview(initialContent);
+  // - loading: a fetch is in flight (the current page stays until it's done)
+  const { page, loading } = useLivePreview(initialContent, { pathname, locale });
 
   return (
-    // Global styles applied to entire app
-    <div className="font-sans leading-relaxed text-slate-900">
-      <Routes>
-        {/* 
-          Catch-all route: /* matches any path
-          All URLs (/, /about, /products/1) go to the same Page component
-          The Page component uses the URL to determine what content to show
-        */}
-        <Route path="/*" element={<Page content={page} />} />
-      </Routes>
-    </div>
+    <LocaleProvider value={locale}>
+      {/* Screen readers announce the page once a navigation / update is fetched */}
+      <div aria-busy={loading || undefined}>
+        <Routes>
+          {/* 
+            Catch-all route: /* matches any path
+            The entry was already resolved for the URL (see fetchRouteContent),
+            ContentView only picks the component that renders it
+          */}
+          <Route path="/*" element={<ContentView content={page} pathname={pathname} />} />
+        </Routes>
+      </div>
+    </LocaleProvider>
+  );
+}
+
+/**
+ * Render an entry with the page component of its route
+ * - No entry: Page renders its "not found" message
+ * - Route components may be lazy; the Suspense boundary in App covers them
+ * - The entry's embedded items (JSON RTE) are available to every RichText inside
+ */
+function ContentView({ content, pathname }: { content: BaseEntry | null; pathname: string }) {
+  if (!content) return <Page content={null} />;
+
+  const Component = getContentRoute(content, pathname)?.component ?? Page;
+  return (
+    <EmbeddedItemsProvider items={content._embedded_items}>
+      <Component content={content} />
+    </EmbeddedItemsProvider>
+  );
+}
+
+/**
+ * Placeholder streamed while page content is loading
+ */
+function PageFallback() {
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8" aria-busy="true">
+      <div className="h-10 w-2/3 mb-4 rounded bg-gray-100 animate-pulse" />
+      <div className="h-5 w-full mb-2 rounded bg-gray-100 animate-pulse" />
+      <div className="h-5 w-5/6 rounded bg-gray-100 animate-pulse" />
+    </main>
   );
 }
@@ -0,0 +1,37 @@
+/**
+ * App configuration - the settings the app code reads
+ *
+ * WHERE IT COMES FROM:
+ * - Browser: The public settings, validated and compiled in when Vite
+ *   built the client (__PUBLIC_CONFIG__, see plugins/publicConfig.ts) -
+ *   a plain object, nothing is parsed here
+ * - Server (SSR): The configuration the server validated at startup
+ *   (loadConfig in server/config.ts), handed over by provideServerConfig
+ *   before this module loads - tokens included, never compiled in
+ *
+ * NOTE: Only types come from server/config.ts - the client build contains
+ * none of its code.
+ */
+
+import type { PublicConfig, ServerConfig } from "../../server/config";
+
+/**
+ * Server configuration (SSR only, undefined in the browser)
+ * - The client build drops this branch (import.meta.env.SSR is false
+ *   there), so no token ends up in browser code
+ */
+export const serverConfig: ServerConfig | undefined = import.meta.env.SSR ? getServerConfig() : undefined;
+
+/**
+ * Public settings: API key, environment, region, preview, links and locales
+ * (the same values on the server and in the browser)
+ */
+export const publicConfig: PublicConfig = serverConfig?.contentstack ?? __PUBLIC_CONFIG__;
+
+function getServerConfig(): ServerConfig {
+  const config = globalThis.__FRAGMENT_SERVER_CONFIG__;
+  if (!config) {
+    throw new Error("Server configuration missing - call provideServerConfig() before loading the SSR module");
+  }
+  return config;
+}
@@ -0,0 +1,103 @@
+/**
+ * Content API client - fetches content through the fragment server
+ *
+ * WHAT THIS DOES:
+ * - Asks the fragment server for the entry a URL path routes to
+ *   (GET /api/content?slug=..., see server/api.ts)
+ * - Used by the browser for client navigation and live preview updates,
+ *   instead of querying Contentstack directly
+ *
+ * WHY THROUGH THE SERVER?
+ * - Only the server holds the delivery and preview tokens
+ * - Responses come from the same fetch and cache as server rendering, so
+ *   a navigation shows exactly what SSR would have rendered
+ *
+ * WHERE THE SERVER IS:
+ * - Resolved against this module's own URL: the app's scripts are served by
+ *   the fragment server (or from ASSET_BASE_URL, which must then route
+ *   /api/content to it), so this works when the fragment is embedded on
+ *   another origin too
+ */
+
+import { ContentUnavailableError } from "./errors";
+import type { BaseEntry } from "./types";
+import type { AlternateLink } from "./locales";
+import type { PreviewQuery } from "../../server/types";
+
+/**
+ * Content API route on the fragment server
+ * - A constant, not a literal in new URL(...): Vite would try to bundle a
+ *   literal path next to import.meta.url as an asset
+ */
+const CONTENT_API_PATH = "/api/content";
+
+/**
+ * Body of GET /api/content
+ * - slug / locale: Content path (without locale prefix) and locale it was fetched for
+ * - status: 200, or 404 when the slug has no entry (content is then the
+ *   CMS "404 page", or null)
+ * - content: The entry
+ * - alternates: The entry's URL in every locale it's published in
+ */
+export interface ContentResponse {
+  slug: string;
+  locale: string;
+  status: number;
+  content: BaseEntry | null;
+  alternates: AlternateLink[];
+}
+
+/**
+ * What to fetch
+ * - locale: Locale to fetch (the server falls back along its chain)
+ * - preview: Live preview session (see getLivePreviewQuery) - the server
+ *   fetches the draft with its preview token
+ * - signal: Aborts the request (e.g., superseded by a newer navigation)
+ */
+export interface ContentRequestOptions {
+  locale?: string;
+  preview?: PreviewQuery;
+  signal?: AbortSignal;
+}
+
+/**
+ * Fetch the entry a URL path routes to, through the fragment server
+ *
+ * @param pathname - URL path without locale prefix (e.g., "/blog/hello-world")
+ * @param options - Locale, live preview session and abort signal
+ * @returns The server's response (404s included - check status)
+ * @throws ContentUnavailableError when the server can't be reached, or
+ *   can't reach Contentstack (503) or fails (5xx)
+ *
+ * EXAMPLE:
+ * fetchContentFromServer("/about", { locale: "fr-fr" })
+ * → GET /api/content?slug=%2Fabout&locale=fr-fr
+ */
+export async function fetchContentFromServer(
+  pathname: string,
+  { locale, preview, signal }: ContentRequestOptions = {}
+): Promise<ContentResponse> {
+  const url = new URL(CONTENT_API_PATH, import.meta.url);
+  url.searchParams.set("slug", pathname);
+  if (locale) url.searchParams.set("locale", locale);
+  for (const [name, value] of Object.entries(preview ?? {})) {
+    if (typeof value === "string") url.searchParams.set(name, value);
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(url, { signal, headers: { Accept: "application/json" } });
+  } catch (error) {
+    // Aborted on purpose - not an outage
+    if (signal?.aborted) throw error;
+    throw new ContentUnavailableError("Content API request failed", { cause: error });
+  }
+
+  if (response.status !== 200 && response.status !== 404) {
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    throw new ContentUnavailableError(`Content API responded ${response.status}`, {
+      retryAfter: retryAfter > 0 ? retryAfter : undefined,
+    });
+  }
+  return (await response.json()) as ContentResponse;
+}
@@ -3,7 +3,9 @@
  *
  * WHAT THIS DOES:
  * - Configures the Contentstack SDK to connect to your CMS
- * - Provides functions to fetch content (pages, entries, etc.)
+ * - Provides functions to fetch content (pages, any entry by uid, entry lists)
+ *   from a content provider: Contentstack, or local JSON fixtures
+ *   (FRAGMENT_CONTENT_PROVIDER, see ContentProvider)
  * - Sets up live preview (real-time content updates when editing in CMS)
  * - Handles region-specific endpoints (EU, US, etc.)
  *
@@ -11,54 +13,87 @@
  * - When enabled, content updates automatically refresh the page
  * - No page reload needed - React updates components in place
  * - Only works in development/preview environments
+ *
+ * SERVER ONLY:
+ * - Content is fetched with the SDK on the server; the browser asks the
+ *   server for it (GET /api/content, see src/api/contentApi.ts), so the
+ *   delivery and preview tokens never leave the server
  */
 
 import contentstack, { QueryOperation } from "@contentstack/delivery-sdk";
-import ContentstackLivePreview, {
-  type IStackSdk,
-} from "@contentstack/live-preview-utils";
-import { getRegionForString, getContentstackEndpoints } from "@timbenniks/contentstack-endpoints";
+import ContentstackLivePreview from "@contentstack/live-preview-utils";
+import { getContentstackEndpoints } from "@timbenniks/contentstack-endpoints";
+import { publicConfig as config, serverConfig } from "./config";
+import { sanitizeEntry, type LinkOptions } from "./sanitize";
+import { getLocaleChain } from "./locales";
+import { ContentUnavailableError } from "./errors";
+import type { ContentContext, PreviewQuery, PreviewTimeline } from "../../server/types";
+import type { Article, BaseEntry, Page, Product, ReferenceTree } from "./types";
+
+// Request types are shared with the server (one definition, in a module
+// that imports nothing at runtime) - re-exported for the app code, like
+// the entry types (src/api/types.ts)
+export type { ContentContext, PreviewQuery, PreviewTimeline };
+export type * from "./types";
 
 // ============================================================================
 // Configuration
 // ============================================================================
 
-/**
- * Environment variables are injected by Vite at build time
- * - import.meta.env is Vite's way to access env vars
- * - Variables prefixed with CONTENTSTACK_ are exposed to client (see vite.config.ts)
- * - Server can access all env vars via process.env
- */
-const env = import.meta.env;
+// Settings (API key, environment, region, preview, links) come from
+// src/api/config.ts: compiled into the client, the server's own
+// configuration during SSR
 
 /**
- * Determine which Contentstack region to use
- * - Regions: EU, US, AU, etc.
- * - Free accounts are typically EU
- * - getRegionForString handles aliases (e.g., "eu" = "EU")
+ * Tokens - empty in the browser, and with fixture content (which never
+ * creates a stack, so the server doesn't require them)
  */
-const region = getRegionForString(env.CONTENTSTACK_REGION || "us");
+const tokens = {
+  delivery: serverConfig?.contentstack.deliveryToken ?? "",
+  preview: serverConfig?.contentstack.previewToken ?? "",
+};
 
 /**
- * Get the correct API endpoints for this region
+ * Get the correct API endpoints for the region (CONTENTSTACK_REGION -
+ * aliases like "us" or "aws-na" are resolved by the configuration)
  * - Different regions have different API URLs
  * - Second param (true) enables CDN endpoints for better performance
  */
-const endpoints = getContentstackEndpoints(region, true);
+const endpoints = getContentstackEndpoints(config.region, true);
 
 /**
  * Whether live preview mode is enabled
  * - Set CONTENTSTACK_PREVIEW=true in .env to enable
  * - Only works with preview tokens (not delivery tokens)
  */
-export const isPreviewMode = env.CONTENTSTACK_PREVIEW === "true";
+export const isPreviewMode = config.preview;
 
 /**
- * Contentstack SDK instance
- * 
- * This is the main object used to fetch content from Contentstack.
- * Configured once here, used everywhere via imports.
- * 
+ * How links in rich text are rewritten (see src/api/sanitize.ts)
+ * - CONTENTSTACK_LINK_BASE: Host application prefix for internal links
+ *   (e.g., "/content" or "https://shop.example.com/content")
+ * - CONTENTSTACK_INTERNAL_HOSTS: Comma-separated hostnames whose absolute
+ *   links are internal (e.g., "www.example.com,example.com")
+ * - CONTENTSTACK_EMBED_ORIGINS: Comma-separated origins JSON RTE embeds may
+ *   load from (default YouTube and Vimeo) - other embeds become links
+ */
+const linkOptions: LinkOptions = {
+  base: config.linkBase,
+  internalHosts: config.internalHosts,
+  embedOrigins: config.embedOrigins,
+};
+
+/**
+ * Whether live preview is rendered on the server (Visual Builder)
+ * - Set CONTENTSTACK_PREVIEW_SSR=true (with CONTENTSTACK_PREVIEW=true)
+ * - The preview iframe reloads on every edit and the server renders the
+ *   draft (see PreviewQuery), instead of the client refetching after hydration
+ */
+export const isSsrPreview = config.previewSsr;
+
+/**
+ * Create a Contentstack SDK instance
+ *
  * CONFIGURATION:
  * - apiKey: Your stack's API key (found in Settings > Tokens)
  * - deliveryToken: Token for fetching published content
@@ -66,17 +101,60 @@ export const isPreviewMode = env.CONTENTSTACK_PREVIEW === "true";
  * - host: API endpoint URL (varies by region)
  * - live_preview: Configuration for live preview feature
  */
-export const stack = contentstack.stack({
-  apiKey: env.CONTENTSTACK_API_KEY || "",
-  deliveryToken: env.CONTENTSTACK_DELIVERY_TOKEN || "",
-  environment: env.CONTENTSTACK_ENVIRONMENT || "production",
-  host: endpoints.contentDelivery,
-  live_preview: {
-    enable: isPreviewMode,
-    preview_token: env.CONTENTSTACK_PREVIEW_TOKEN || "",
-    host: endpoints.preview,
-  },
-});
+function createStack() {
+  return contentstack.stack({
+    apiKey: config.apiKey,
+    deliveryToken: tokens.delivery,
+    environment: config.environment,
+    host: endpoints.contentDelivery,
+    live_preview: {
+      enable: isPreviewMode,
+      preview_token: tokens.preview,
+      host: endpoints.preview,
+    },
+  });
+}
+
+/**
+ * Contentstack SDK instance (server only)
+ *
+ * This is the main object used to fetch content from Contentstack.
+ * Created on first use: the browser never fetches content itself, and
+ * without a delivery token the SDK refuses to create a stack.
+ */
+let sharedStack: ReturnType<typeof createStack> | undefined;
+
+function getSharedStack() {
+  sharedStack ??= createStack();
+  return sharedStack;
+}
+
+/**
+ * SDK instance for a request
+ *
+ * @param preview - Live preview parameters of the request (ignored unless
+ *   preview mode is enabled with a preview token)
+ * @returns The shared stack, or a new one bound to the preview session
+ *
+ * NOTE: Preview requests (Timeline and releases included) go to the preview
+ * host with the preview token - without a token, published content is
+ * fetched as usual.
+ *
+ * WHY A NEW INSTANCE PER PREVIEW?
+ * - livePreviewQuery stores the session on the instance's HTTP client, so
+ *   on the shared stack concurrent requests would see each other's drafts
+ *   (or a published request would see a draft)
+ */
+function getStack(preview?: PreviewQuery) {
+  if (!preview || !isPreviewMode || !tokens.preview) return getSharedStack();
+
+  const previewStack = createStack();
+  previewStack.livePreviewQuery(preview);
+  return previewStack;
+}
+
+/** Set once the Live Preview SDK has been initialized (see initLivePreview) */
+let livePreviewInitialized = false;
 
 /**
  * Initialize live preview (call once on client-side)
@@ -90,25 +168,32 @@ export const stack = contentstack.stack({
  * - Only runs in the browser (typeof window check)
  * - Only runs if preview mode is enabled
  * - Called from useLivePreview hook after component mounts
+ * - Only the first call initializes; later calls (one per fragment root,
+ *   remounts) do nothing, so it's safe to call from every hook instance
  *
  * HOW IT WORKS:
  * - Establishes a WebSocket connection to Contentstack
  * - When you save content in CMS, Contentstack sends an update
  * - The onEntryChange callback fires and updates React state
  * - Page re-renders with new content (no page reload!)
+ *
+ * NOTE: No SDK instance is passed (stackSdk) - the draft is fetched by the
+ * server with the session from getLivePreviewQuery.
  */
 export function initLivePreview(): void {
   // Only run in browser, not during SSR
-  if (typeof window === "undefined" || !isPreviewMode) return;
+  if (typeof window === "undefined" || !isPreviewMode || livePreviewInitialized) return;
+  livePreviewInitialized = true;
 
   ContentstackLivePreview.init({
-    ssr: false, // We handle SSR separately, this is client-only
+    // SSR preview: the iframe reloads on edits and the server renders the draft
+    // Otherwise: edits are fetched here (onEntryChange) after hydration
+    ssr: isSsrPreview,
     enable: true,
     mode: "builder", // Shows edit buttons in CMS
-    stackSdk: stack.config as IStackSdk, // Pass our SDK config
     stackDetails: {
-      apiKey: env.CONTENTSTACK_API_KEY || "",
-      environment: env.CONTENTSTACK_ENVIRONMENT || "",
+      apiKey: config.apiKey,
+      environment: config.environment,
     },
     clientUrlParams: { host: endpoints.application }, // CMS application URL
     editButton: { enable: true }, // Show edit buttons in preview
@@ -122,9 +207,43 @@ export function initLivePreview(): void {
  * - Call this with a function that fetches/updates content
  * - That function will be called whenever content changes in CMS
  * - Example: onEntryChange(() => fetchPageBySlug('/about'))
+ * - Returns a callback uid for unsubscribeOnEntryChange
+ * - { skipInitialRender: true } skips the immediate first call (the
+ *   content is already rendered)
  */
 export const onEntryChange = ContentstackLivePreview.onEntryChange;
 
+/**
+ * Remove a callback registered with onEntryChange (by its uid)
+ */
+export const unsubscribeOnEntryChange = ContentstackLivePreview.unsubscribeOnEntryChange;
+
+/**
+ * Live preview session of the page (browser only)
+ *
+ * @returns The session hash, the entry being edited and the Timeline date /
+ *   release from the page URL - undefined outside a preview session
+ *
+ * The browser has no preview token: it sends these to the server, which
+ * fetches the draft (see fetchContentFromServer in src/api/contentApi.ts)
+ */
+export function getLivePreviewQuery(): PreviewQuery | undefined {
+  if (typeof window === "undefined" || !isPreviewMode) return undefined;
+
+  const hash = ContentstackLivePreview.hash;
+  if (!hash) return undefined;
+
+  const { contentTypeUid, entryUid } = ContentstackLivePreview.config.stackDetails;
+  const params = new URLSearchParams(window.location.search);
+  return {
+    live_preview: hash,
+    content_type_uid: contentTypeUid || undefined,
+    entry_uid: entryUid || undefined,
+    preview_timestamp: params.get("preview_timestamp") ?? undefined,
+    release_id: params.get("release_id") ?? undefined,
+  };
+}
+
 // ============================================================================
 // Data Fetching
 // ============================================================================
@@ -157,98 +276,332 @@ function addEditableTags<T>(entry: T, contentType: string): T {
 }
 
 /**
- * Fetch a page by URL slug (e.g., "/about")
+ * Reference fields resolved with each content type
  *
  * WHAT THIS DOES:
- * - Queries Contentstack for a page with matching URL
- * - Returns the page content or null if not found
- * - Adds live preview tags if preview mode is enabled
+ * - Lists, per content type, which reference fields come back as full
+ *   entries (without this, a reference field only holds
+ *   [{ uid, _content_type_uid }])
+ * - Nesting resolves references inside referenced entries:
+ *   { related_articles: { author: true } } resolves the related articles
+ *   and each related article's author
+ * - Field names are type-checked against the content type's interface
+ *   (only Reference<...> fields are allowed)
  *
- * @param slug - The URL path (e.g., "/about", "/products/1")
- * @returns The page entry or null if not found
+ * NOTE: Keep the tree shallow - each level makes the response bigger, and
+ * Contentstack caps how many levels and references one request resolves.
+ * Deeper references stay unresolved ({ uid, _content_type_uid }).
  *
- * HOW IT WORKS:
- * 1. Query the "page" content type
- * 2. Filter by url field matching the slug
- * 3. Limit to 1 result (should only be one match)
- * 4. Add editable tags for live preview
- * 5. Return the entry or null
+ * NOTE: File fields (images, videos) always come back resolved, they
+ * don't need an entry here.
+ */
+export const contentTypeReferences: {
+  page: ReferenceTree<Page>;
+  article: ReferenceTree<Article>;
+  product: ReferenceTree<Product>;
+} = {
+  page: { related_pages: true },
+  article: { author: true, related_articles: { author: true } },
+  product: { related_products: true },
+};
+
+/** Any reference tree, untyped (what getReferencePaths walks) */
+type ReferencePaths = { [field: string]: true | ReferencePaths | undefined };
+
+/**
+ * Flatten a reference tree into includeReference paths
  *
  * EXAMPLE:
- * - fetchPageBySlug("/about") → finds page where url = "/about"
- * - fetchPageBySlug("/") → finds page where url = "/"
+ * getReferencePaths({ author: true, related_articles: { author: true } })
+ * → ["author", "related_articles", "related_articles.author"]
  */
-export async function fetchPageBySlug(slug: string): Promise<Page | null> {
-  try {
-    // Build a query using Contentstack's fluent API
-    const result = await stack
-      .contentType("page") // Query the "page" content type
-      .entry() // Get entries (not the content type itself)
-      .query() // Start building a query
-      .where("url", QueryOperation.EQUALS, slug) // Filter: url field equals slug
-      .limit(1) // Only need one result
-      .find<Page>(); // Execute query and return typed results
-
-    // Extract the first entry (or null if none found)
-    const entry = result.entries?.[0] ?? null;
-
-    // Add editable tags for live preview, then return
-    return entry ? addEditableTags(entry, "page") : null;
-  } catch (error) {
-    // Log error but don't crash - return null so app can show "not found"
-    console.error(`Error fetching page "${slug}":`, error);
-    return null;
-  }
+export function getReferencePaths(tree: ReferencePaths, prefix = ""): string[] {
+  return Object.entries(tree).flatMap(([field, nested]) => {
+    if (!nested) return [];
+    const path = prefix + field;
+    return nested === true ? [path] : [path, ...getReferencePaths(nested, `${path}.`)];
+  });
 }
 
-// ============================================================================
-// Types
-// ============================================================================
+/**
+ * includeReference paths for a content type (empty for unlisted types)
+ */
+function getContentTypeIncludes(contentType: string): string[] {
+  const references: Record<string, ReferencePaths> = contentTypeReferences;
+  return Object.hasOwn(references, contentType) ? getReferencePaths(references[contentType]) : [];
+}
 
-/** Live preview data attributes */
-export interface CSLPAttribute {
-  "data-cslp"?: string;
+/**
+ * Rich text fields, by content type
+ *
+ * WHAT THIS IS FOR:
+ * - fetchEntries sanitizes these fields (allow-listed HTML, rewritten
+ *   links, see src/api/sanitize.ts) before anything renders them
+ * - Paths go through arrays and modular blocks: "blocks.block.copy" is
+ *   the copy field of every "block" block
+ * - Referenced and embedded entries are sanitized with their own
+ *   content type's fields
+ *
+ * NOTE: Add new rich text fields here - unlisted fields are rendered as
+ * Contentstack returns them.
+ */
+export const richTextFields: Record<string, string[]> = {
+  page: ["rich_text", "blocks.block.copy"],
+  article: ["body"],
+};
+
+/**
+ * Options for entry queries
+ * - includes: Reference fields to resolve, as includeReference paths
+ *   (e.g., ["author", "related_articles.author"]) - defaults to the content
+ *   type's entry in contentTypeReferences
+ * - where: Field values the entries must equal (e.g., { url: "/about" })
+ * - limit / skip: Pagination (Contentstack returns at most 100 per request)
+ * - locale: Locale to fetch (e.g., "fr-fr"); the stack's master locale when unset.
+ *   Only entries published in exactly that locale match - use
+ *   fetchLocalizedEntry to fall back along the locale's chain
+ * - preview: Live preview parameters (server-rendered preview) - drafts of
+ *   the edited entry instead of published content
+ */
+export interface EntryQueryOptions {
+  includes?: string[];
+  where?: Record<string, string | number | boolean>;
+  limit?: number;
+  skip?: number;
+  locale?: string;
+  preview?: PreviewQuery;
+}
+
+/**
+ * Entry query as a content provider receives it
+ * - Like EntryQueryOptions, with the reference fields already picked
+ */
+export interface EntryQuery extends EntryQueryOptions {
+  includes: string[];
+  where: Record<string, string | number | boolean>;
+}
+
+/**
+ * Where entries come from
+ *
+ * WHAT THIS IS FOR:
+ * - fetchEntries asks the provider for raw entries, then sanitizes and
+ *   tags them - so every provider's entries render the same way
+ * - Contentstack (default), or local JSON fixtures for development and
+ *   tests without network access (see src/api/fixtures.ts)
+ *
+ * IMPLEMENTING:
+ * - findEntries: Entries of the content type matching every `where` field,
+ *   in the query's locale (exactly - fetchLocalizedEntry handles fallbacks),
+ *   with the `includes` reference fields resolved; throw when the source
+ *   can't be reached
+ * - name: Shown in logs and errors
+ */
+export interface ContentProvider {
+  name: string;
+  findEntries<T extends BaseEntry>(contentType: string, query: EntryQuery): Promise<T[]>;
 }
 
-/** Image/file asset from Contentstack */
-export interface ContentstackFile {
-  uid: string;
-  url: string;
-  title: string;
-  filename: string;
-  content_type: string;
-  $?: Record<string, CSLPAttribute>;
+/**
+ * Content provider backed by the Contentstack Delivery SDK
+ *
+ * - Resolves references and the entries and assets embedded in JSON RTE fields
+ * - Preview queries fetch drafts on a stack bound to the session (see getStack)
+ */
+const contentstackProvider: ContentProvider = {
+  name: "contentstack",
+
+  async findEntries<T extends BaseEntry>(
+    contentType: string,
+    { includes, where, limit, skip, locale, preview }: EntryQuery
+  ) {
+    // Build a query using Contentstack's fluent API
+    let entries = getStack(preview).contentType(contentType).entry(); // Entries of this content type
+    if (locale) entries = entries.locale(locale); // Entries published in this locale
+    if (includes.length) {
+      // Resolved references also carry _content_type_uid, which
+      // addEditableTags needs to tag their fields with their own entry
+      entries = entries.includeReference(...includes).includeReferenceContentTypeUID();
+    }
+    // Entries and assets embedded in JSON RTE fields (_embedded_items)
+    entries = entries.includeEmbeddedItems();
+
+    let query = entries.query(); // Start building a query
+    for (const [field, value] of Object.entries(where)) {
+      query = query.where(field, QueryOperation.EQUALS, value); // Filter: field equals value
+    }
+    if (limit !== undefined) query = query.limit(limit);
+    if (skip !== undefined) query = query.skip(skip);
+
+    const result = await query.find<T>(); // Execute query and return typed results
+    return result.entries ?? [];
+  },
+};
+
+let contentProvider: Promise<ContentProvider> | undefined;
+
+/**
+ * Content provider for this process (chosen on first use)
+ * - FRAGMENT_CONTENT_PROVIDER: contentstack (default), fixtures (JSON files
+ *   in FRAGMENT_FIXTURES_DIR) or record (Contentstack, writing every
+ *   response into FRAGMENT_FIXTURES_DIR) - see server/config.ts
+ *
+ * NOTE: The fixture module reads the file system - it's only loaded on the
+ * server (the client build drops the import.meta.env.SSR branch).
+ */
+function getContentProvider(): Promise<ContentProvider> {
+  contentProvider ??= (async () => {
+    if (import.meta.env.SSR && serverConfig && serverConfig.contentProvider !== "contentstack") {
+      const { createFixtureProvider, createRecordingProvider } = await import("./fixtures");
+      const { contentProvider: name, fixturesDir: dir } = serverConfig;
+      return name === "fixtures" ? createFixtureProvider(dir) : createRecordingProvider(contentstackProvider, dir);
+    }
+    return contentstackProvider;
+  })();
+  return contentProvider;
+}
+
+/**
+ * Fetch entries of a content type
+ *
+ * WHAT THIS DOES:
+ * - Queries the content provider (Contentstack, or fixtures - see
+ *   ContentProvider) for entries matching every `where` field
+ * - Resolves reference fields (see contentTypeReferences) and the entries
+ *   and assets embedded in JSON RTE fields
+ * - Sanitizes rich text fields (see richTextFields)
+ * - Adds live preview tags (referenced entries included) and records the content type on each entry
+ *   (_content_type_uid - used to pick the page component, see src/routes.tsx)
+ *
+ * @param contentType - Content type uid (e.g., "article")
+ * @param options - Filters, references and pagination (see EntryQueryOptions)
+ * @returns The matching entries (empty when none match)
+ * @throws ContentUnavailableError when the content provider can't be reached or errors
+ *
+ * EXAMPLE:
+ * - fetchEntries<Article>("article", { limit: 10 }) → first 10 articles
+ * - fetchEntries("page", { where: { url: "/about" }, limit: 1 })
+ * - fetchEntries("page", { where: { url: "/about" }, locale: "fr-fr", limit: 1 })
+ */
+export async function fetchEntries<T extends BaseEntry>(
+  contentType: string,
+  {
+    includes = getContentTypeIncludes(contentType),
+    where = {},
+    limit,
+    skip,
+    locale,
+    preview,
+  }: EntryQueryOptions = {}
+): Promise<T[]> {
+  const provider = await getContentProvider();
+  let entries: T[];
+  try {
+    entries = await provider.findEntries<T>(contentType, { includes, where, limit, skip, locale, preview });
+  } catch (error) {
+    // Don't turn an outage into "not found" - the server answers 503 for this
+    console.error(`Error fetching ${contentType} entries (${provider.name}):`, error);
+    throw new ContentUnavailableError(`Content request failed for ${contentType} entries (${provider.name})`, {
+      cause: error,
+    });
+  }
+
+  // Outside the try: a bug here is ours, not an outage (500, not 503)
+  return entries.map((entry) => {
+    entry._content_type_uid = contentType;
+    // Clean rich text before it can reach the page (server and client alike)
+    sanitizeEntry(entry, richTextFields, linkOptions);
+    // Add editable tags for live preview
+    return addEditableTags(entry, contentType);
+  });
 }
 
-/** Content block (modular block) */
-export interface Block {
-  title?: string;
-  copy?: string;
-  image?: ContentstackFile | null;
-  layout?: "image_left" | "image_right" | null;
-  _metadata?: { uid: string };
-  $?: Record<string, CSLPAttribute>;
+/**
+ * Fetch one entry in a locale, falling back along the locale's chain
+ *
+ * WHAT THIS DOES:
+ * - Queries each locale of getLocaleChain(locale) in turn (see src/api/locales.ts)
+ * - Returns the first match: the entry in the closest locale it's published in
+ *
+ * @param contentType - Content type uid (e.g., "page")
+ * @param locale - Requested locale (e.g., "fr-ca")
+ * @param options - Filters and references (limit is always 1)
+ * @returns The entry (its locale field names the locale it came from) or null
+ * @throws ContentUnavailableError when Contentstack can't be reached or errors
+ *
+ * EXAMPLE (CONTENTSTACK_LOCALE_FALLBACKS=fr-ca:fr-fr):
+ * - fetchLocalizedEntry("page", "fr-ca", { where: { url: "/about" } })
+ *   → tries fr-ca, then fr-fr, then the default locale
+ */
+export async function fetchLocalizedEntry<T extends BaseEntry>(
+  contentType: string,
+  locale: string,
+  options: Omit<EntryQueryOptions, "locale" | "limit" | "skip"> = {}
+): Promise<T | null> {
+  for (const code of getLocaleChain(locale)) {
+    const [entry] = await fetchEntries<T>(contentType, { ...options, locale: code, limit: 1 });
+    if (entry) return entry;
+  }
+  return null;
 }
 
-/** Block wrapper (how Contentstack returns modular blocks) */
-export interface BlockWrapper {
-  uid?: string;
-  block: Block;
+/**
+ * Fetch a single entry by uid
+ *
+ * @param contentType - Content type uid (e.g., "product")
+ * @param uid - Entry uid (e.g., "blt1234567890")
+ * @param options - Reference fields to resolve
+ * @returns The entry or null if not found
+ * @throws ContentUnavailableError when Contentstack can't be reached or errors
+ */
+export async function fetchEntryByUid<T extends BaseEntry>(
+  contentType: string,
+  uid: string,
+  options: Pick<EntryQueryOptions, "includes"> = {}
+): Promise<T | null> {
+  const [entry] = await fetchEntries<T>(contentType, { ...options, where: { uid }, limit: 1 });
+  return entry ?? null;
 }
 
-/** Page content type */
-export interface Page {
-  uid: string;
-  title: string;
-  url?: string;
-  description?: string;
-  image?: ContentstackFile | null;
-  rich_text?: string;
-  blocks?: BlockWrapper[];
-  $?: Record<string, CSLPAttribute>;
+/**
+ * Fetch a page by URL slug (e.g., "/about")
+ *
+ * WHAT THIS DOES:
+ * - Queries the "page" content type for the entry whose url equals the slug
+ * - Returns the page content or null if not found
+ *
+ * @param slug - The URL path (e.g., "/about", "/products/1")
+ * @param context - Locale and live preview parameters (see ContentContext)
+ * @returns The page entry or null if not found
+ * @throws ContentUnavailableError when Contentstack can't be reached or errors
+ *
+ * NOTE: Only looks at pages. To resolve a URL to whichever content type
+ * it routes to (page, article, product, ...), use fetchRouteContent
+ * from src/routes.tsx.
+ *
+ * EXAMPLE:
+ * - fetchPageBySlug("/about") → finds page where url = "/about"
+ * - fetchPageBySlug("/") → finds page where url = "/"
+ */
+export async function fetchPageBySlug(slug: string, { locale, preview }: ContentContext = {}): Promise<Page | null> {
+  if (locale) return fetchLocalizedEntry<Page>("page", locale, { where: { url: slug }, preview });
+  const [entry] = await fetchEntries<Page>("page", { where: { url: slug }, limit: 1, preview });
+  return entry ?? null;
 }
 
-/** Props passed to render function */
-export interface RenderProps {
-  content?: Page | null;
+/**
+ * Fetch the CMS-managed "404 page" (optional)
+ *
+ * WHAT THIS DOES:
+ * - Looks up the page entry whose url is CONTENTSTACK_NOT_FOUND_URL (e.g., "/404")
+ * - Lets editors manage the "not found" content like any other page
+ * - Returns null when not configured or the entry doesn't exist
+ *   (Page then shows its built-in "Page Not Found" message)
+ *
+ * @param context - Locale and live preview parameters (see ContentContext)
+ * @throws ContentUnavailableError when Contentstack can't be reached or errors
+ */
+export async function fetchNotFoundPage(context: ContentContext = {}): Promise<Page | null> {
+  const { notFoundUrl } = config;
+  return notFoundUrl ? fetchPageBySlug(notFoundUrl, context) : null;
 }
@@ -0,0 +1,31 @@
+/**
+ * Content errors - shared by server rendering and the browser
+ *
+ * WHY A SEPARATE MODULE?
+ * - The browser throws these too (see src/api/contentApi.ts); importing
+ *   them from src/api/contentstack.ts would pull the Contentstack SDKs
+ *   into the client bundle
+ * - Keep it free of imports
+ */
+
+/**
+ * Thrown when content can't be fetched (network error, outage, bad token)
+ *
+ * WHY A DEDICATED ERROR?
+ * - "Entry doesn't exist" (null → 404) and "CMS is down" must not look alike
+ * - The server maps this error to 503 with a Retry-After header
+ *
+ * NOTE: The server recognizes it by name (see server/utils.ts), because
+ * dev and production load this module in different ways.
+ */
+export class ContentUnavailableError extends Error {
+  override readonly name = "ContentUnavailableError";
+
+  /** Seconds the host should wait before retrying (Retry-After header) */
+  readonly retryAfter: number;
+
+  constructor(message: string, options?: { cause?: unknown; retryAfter?: number }) {
+    super(message, { cause: options?.cause });
+    this.retryAfter = options?.retryAfter ?? 30;
+  }
+}
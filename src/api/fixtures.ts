@@ -0,0 +1,202 @@
+/**
+ * Fixture content provider - entries from local JSON files (server only)
+ *
+ * WHAT THIS DOES:
+ * - Answers entry queries from a directory of JSON fixtures instead of
+ *   Contentstack, so the app runs without network access or stack
+ *   credentials (FRAGMENT_CONTENT_PROVIDER=fixtures)
+ * - Records live responses into that directory (FRAGMENT_CONTENT_PROVIDER=record)
+ *
+ * DIRECTORY LAYOUT (FRAGMENT_FIXTURES_DIR, default fixtures/content):
+ * <content type>/<locale>/<any name>.json
+ * - Each file holds one entry or an array of entries
+ * - Example: fixtures/content/page/en-us/about.json → { "uid": "...", "url": "/about", ... }
+ *
+ * REFERENCES:
+ * - Stored as in the CMS: [{ "uid": "blt123", "_content_type_uid": "author" }]
+ * - Resolved from the fixtures when the query includes the field (see
+ *   contentTypeReferences), in the entry's locale or along its fallback
+ *   chain - references without a fixture stay unresolved
+ *
+ * NOTE: Fixtures have no drafts - preview parameters are ignored, and
+ * preview responses are never recorded.
+ */
+
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { BaseEntry, ContentProvider, EntryQuery } from "./contentstack";
+import { defaultLocale, getLocaleChain } from "./locales";
+
+/** Reference fields to resolve, as a tree ("a.b" → { a: { b: {} } }) */
+type IncludeTree = { [field: string]: IncludeTree };
+
+/** Entry as stored in a fixture (any fields) */
+type FixtureEntry = BaseEntry & Record<string, unknown>;
+
+/**
+ * Turn includeReference paths into a tree
+ *
+ * EXAMPLE:
+ * toIncludeTree(["author", "related_articles", "related_articles.author"])
+ * → { author: {}, related_articles: { author: {} } }
+ */
+function toIncludeTree(paths: string[]): IncludeTree {
+  const tree: IncludeTree = {};
+  for (const path of paths) {
+    let node = tree;
+    for (const field of path.split(".")) node = node[field] ??= {};
+  }
+  return tree;
+}
+
+/** Whether a value is a reference entry ({ uid, _content_type_uid, ... }) */
+function isReference(value: unknown): value is FixtureEntry {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as FixtureEntry).uid === "string" &&
+    typeof (value as FixtureEntry)._content_type_uid === "string"
+  );
+}
+
+/** Read a directory's file names (none when it doesn't exist) */
+async function listFiles(dir: string): Promise<string[]> {
+  try {
+    return (await readdir(dir)).sort();
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+/**
+ * Create a provider that reads entries from fixtures
+ *
+ * @param dir - Fixture directory (relative paths resolve against the working directory)
+ *
+ * QUERIES:
+ * - locale: The entries in <content type>/<locale> (default locale when unset)
+ * - where: Every field must equal the value
+ * - skip / limit: Applied in file name order
+ * - includes: References resolved from the fixtures
+ *
+ * Files are read on every query, so edited fixtures show up without a restart.
+ */
+export function createFixtureProvider(dir: string): ContentProvider {
+  const root = resolve(dir);
+
+  async function loadEntries(contentType: string, locale: string): Promise<FixtureEntry[]> {
+    const folder = join(root, contentType, locale);
+    const files = (await listFiles(folder)).filter((file) => file.endsWith(".json"));
+    const entries = await Promise.all(
+      files.map(async (file) => {
+        const data: unknown = JSON.parse(await readFile(join(folder, file), "utf-8"));
+        return (Array.isArray(data) ? data : [data]) as FixtureEntry[];
+      })
+    );
+    return entries.flat().map((entry) => ({ ...entry, locale: entry.locale ?? locale }));
+  }
+
+  /** Referenced entry by uid, in the closest locale that has it */
+  async function loadReference(reference: FixtureEntry, locale: string): Promise<FixtureEntry | undefined> {
+    const contentType = reference._content_type_uid as string;
+    for (const code of getLocaleChain(locale)) {
+      const entry = (await loadEntries(contentType, code)).find(({ uid }) => uid === reference.uid);
+      if (entry) return { ...entry, _content_type_uid: contentType };
+    }
+    return undefined;
+  }
+
+  async function resolveReferences(entry: FixtureEntry, tree: IncludeTree, locale: string): Promise<FixtureEntry> {
+    const resolved = { ...entry };
+    for (const [field, nested] of Object.entries(tree)) {
+      const value = entry[field];
+      if (!Array.isArray(value)) continue;
+      resolved[field] = await Promise.all(
+        value.map(async (item: unknown) => {
+          if (!isReference(item)) return item;
+          const referenced = await loadReference(item, locale);
+          return referenced ? resolveReferences(referenced, nested, locale) : item;
+        })
+      );
+    }
+    return resolved;
+  }
+
+  return {
+    name: `fixtures (${dir})`,
+
+    async findEntries<T extends BaseEntry>(
+      contentType: string,
+      { includes, where, limit, skip = 0, locale = defaultLocale }: EntryQuery
+    ) {
+      const matches = (await loadEntries(contentType, locale))
+        .filter((entry) => Object.entries(where).every(([field, value]) => entry[field] === value))
+        .slice(skip, limit === undefined ? undefined : skip + limit);
+
+      const tree = toIncludeTree(includes);
+      return (await Promise.all(matches.map((entry) => resolveReferences(entry, tree, locale)))) as unknown as T[];
+    },
+  };
+}
+
+/**
+ * Create a provider that records another provider's responses as fixtures
+ *
+ * @param provider - Provider answering the queries (Contentstack)
+ * @param dir - Fixture directory the entries are written to
+ *
+ * HOW IT WORKS:
+ * - Every entry a query returns is written to
+ *   <content type>/<locale>/<uid>.json (overwriting an earlier recording)
+ * - Resolved references are written as entries of their own, and stored
+ *   in the referencing entry as { uid, _content_type_uid } - so a page
+ *   recorded once serves every query that includes its references
+ * - Browse the app (or run the queries) once, then switch to
+ *   FRAGMENT_CONTENT_PROVIDER=fixtures
+ *
+ * NOTE: A failed write is logged and the response still served.
+ */
+export function createRecordingProvider(provider: ContentProvider, dir: string): ContentProvider {
+  const root = resolve(dir);
+
+  /** Write an entry and the references it includes, return its stored form */
+  async function record(entry: FixtureEntry, contentType: string, tree: IncludeTree, locale: string) {
+    const stored = { ...entry };
+    for (const [field, nested] of Object.entries(tree)) {
+      const value = entry[field];
+      if (!Array.isArray(value)) continue;
+      stored[field] = await Promise.all(
+        value.map(async (item: unknown) => {
+          if (!isReference(item)) return item;
+          const referenceType = item._content_type_uid as string;
+          await record(item, referenceType, nested, item.locale ?? locale);
+          return { uid: item.uid, _content_type_uid: referenceType };
+        })
+      );
+    }
+
+    const folder = join(root, contentType, entry.locale ?? locale);
+    await mkdir(folder, { recursive: true });
+    await writeFile(join(folder, `${entry.uid}.json`), `${JSON.stringify(stored, null, 2)}\n`);
+  }
+
+  return {
+    name: `${provider.name}, recording to ${dir}`,
+
+    async findEntries<T extends BaseEntry>(contentType: string, query: EntryQuery) {
+      const entries = await provider.findEntries<T>(contentType, query);
+      if (query.preview) return entries;
+
+      const tree = toIncludeTree(query.includes);
+      try {
+        for (const entry of entries) {
+          await record(entry as FixtureEntry, contentType, tree, query.locale ?? defaultLocale);
+        }
+      } catch (error) {
+        console.error(`Recording ${contentType} fixtures failed:`, error);
+      }
+      return entries;
+    },
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Locales - which locale a request is for, and where its content comes from
+ *
+ * WHAT THIS DOES:
+ * - Reads the supported locales and their fallback chains from the configuration
+ * - Resolves the locale of a request: URL prefix ("/fr-fr/about"), then the
+ *   host's X-Fragment-Locale header, then Accept-Language, then the default
+ * - Builds locale-prefixed paths for links and hreflang alternates
+ *
+ * CONFIGURATION (validated with the rest - see server/config.ts):
+ * - CONTENTSTACK_LOCALES: Comma-separated locale codes, default first
+ *   (e.g., "en-us,fr-fr,fr-ca,de-de"); unset = "en-us" only
+ * - CONTENTSTACK_LOCALE_FALLBACKS: Comma-separated "locale:fallback" pairs
+ *   (e.g., "fr-ca:fr-fr"); chains follow every pair and always end with
+ *   the default locale (fr-ca → fr-fr → en-us)
+ *
+ * URL SCHEME:
+ * - Default locale: no prefix ("/about")
+ * - Other locales: their code as the first segment ("/fr-fr/about")
+ *
+ * NOTE: Runs on the server and in the browser (no Node.js APIs).
+ */
+
+import { publicConfig } from "./config";
+
+/**
+ * Supported locale codes (lowercase), default first
+ */
+export const locales: string[] = publicConfig.locales;
+
+/** Locale served when a request names no supported locale */
+export const defaultLocale = locales[0];
+
+/**
+ * Next locale to try for each locale (from CONTENTSTACK_LOCALE_FALLBACKS)
+ *
+ * EXAMPLE:
+ * "fr-ca:fr-fr,de-at:de-de" → { "fr-ca": "fr-fr", "de-at": "de-de" }
+ */
+export const localeFallbacks: Record<string, string> = publicConfig.localeFallbacks;
+
+/**
+ * Whether a code is one of the supported locales (case-insensitive)
+ */
+export function isSupportedLocale(code: string | undefined): boolean {
+  return !!code && locales.includes(code.toLowerCase());
+}
+
+/**
+ * Locales to query, in order, for content in a locale
+ *
+ * @returns The locale, its fallbacks, then the default locale (no duplicates)
+ *
+ * EXAMPLE (fallbacks: { "fr-ca": "fr-fr" }, default "en-us"):
+ * - getLocaleChain("fr-ca") → ["fr-ca", "fr-fr", "en-us"]
+ * - getLocaleChain("en-us") → ["en-us"]
+ */
+export function getLocaleChain(locale: string): string[] {
+  const chain: string[] = [];
+  let code: string | undefined = locale.toLowerCase();
+  // Stops at the end of the chain, or at a cycle in the configuration
+  while (code && !chain.includes(code)) {
+    chain.push(code);
+    code = localeFallbacks[code];
+  }
+  if (!chain.includes(defaultLocale)) chain.push(defaultLocale);
+  return chain;
+}
+
+/**
+ * Split a locale prefix off a URL path
+ *
+ * @returns The prefix's locale (undefined when there is none) and the path without it
+ *
+ * EXAMPLE:
+ * - splitLocalePath("/fr-fr/about") → { locale: "fr-fr", pathname: "/about" }
+ * - splitLocalePath("/fr-fr") → { locale: "fr-fr", pathname: "/" }
+ * - splitLocalePath("/about") → { locale: undefined, pathname: "/about" }
+ */
+export function splitLocalePath(pathname: string): { locale?: string; pathname: string } {
+  const [, first, ...rest] = pathname.split("/");
+  if (!isSupportedLocale(first)) return { pathname };
+  return { locale: first.toLowerCase(), pathname: `/${rest.join("/")}` };
+}
+
+/**
+ * Build the URL path of a content path in a locale
+ *
+ * EXAMPLE (default "en-us"):
+ * - localizePath("/about", "fr-fr") → "/fr-fr/about"
+ * - localizePath("/", "fr-fr") → "/fr-fr"
+ * - localizePath("/about", "en-us") → "/about"
+ */
+export function localizePath(pathname: string, locale: string): string {
+  if (locale === defaultLocale) return pathname;
+  return pathname === "/" ? `/${locale}` : `/${locale}${pathname}`;
+}
+
+/**
+ * Pick the supported locale that best matches an Accept-Language header
+ *
+ * HOW IT MATCHES:
+ * - Languages are tried by quality (q=), highest first
+ * - Exact match first ("fr-ca"), then the first supported locale with
+ *   the same language ("fr" or "fr-be" → "fr-fr")
+ *
+ * @returns The matching locale, or undefined when none matches
+ *
+ * EXAMPLE (locales: en-us, fr-fr):
+ * - negotiateLocale("fr-CH, fr;q=0.9, en;q=0.8") → "fr-fr"
+ * - negotiateLocale("ja") → undefined
+ */
+export function negotiateLocale(acceptLanguage: string | undefined): string | undefined {
+  const ranges = (acceptLanguage || "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...params] = part.trim().toLowerCase().split(";");
+      const q = params.map((param) => param.trim()).find((param) => param.startsWith("q="));
+      return { tag: tag.trim(), q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && tag !== "*" && q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const { tag } of ranges) {
+    if (isSupportedLocale(tag)) return tag;
+    const language = tag.split("-")[0];
+    const match = locales.find((code) => code.split("-")[0] === language);
+    if (match) return match;
+  }
+  return undefined;
+}
+
+/**
+ * Locale hints besides the URL
+ * - requested: Locale chosen by the host (X-Fragment-Locale header); on the
+ *   client, the locale the fragment was rendered with
+ * - acceptLanguage: The browser's Accept-Language header (server only)
+ */
+export interface LocaleHints {
+  requested?: string;
+  acceptLanguage?: string;
+}
+
+/**
+ * Resolve the locale of a request and the content path to fetch
+ *
+ * ORDER:
+ * 1. URL prefix ("/fr-fr/about")
+ * 2. hints.requested (unsupported codes are ignored)
+ * 3. hints.acceptLanguage
+ * 4. defaultLocale
+ *
+ * @param pathname - URL path (e.g., "/fr-fr/about")
+ * @returns The locale and the path without its prefix
+ *
+ * EXAMPLE:
+ * - resolveLocale("/fr-fr/about") → { locale: "fr-fr", pathname: "/about" }
+ * - resolveLocale("/about", { acceptLanguage: "fr" }) → { locale: "fr-fr", pathname: "/about" }
+ */
+export function resolveLocale(pathname: string, { requested, acceptLanguage }: LocaleHints = {}): {
+  locale: string;
+  pathname: string;
+} {
+  const split = splitLocalePath(pathname);
+  const locale =
+    split.locale ??
+    (requested && isSupportedLocale(requested) ? requested.toLowerCase() : undefined) ??
+    negotiateLocale(acceptLanguage) ??
+    defaultLocale;
+  return { locale, pathname: split.pathname };
+}
+
+/**
+ * Link to the same content in another locale (hreflang)
+ * - locale: Locale code (e.g., "fr-fr")
+ * - href: URL path in that locale (e.g., "/fr-fr/a-propos")
+ */
+export interface AlternateLink {
+  locale: string;
+  href: string;
+}
@@ -0,0 +1,304 @@
+/**
+ * Rich text sanitization - allow-list cleaning and link rewriting
+ *
+ * WHAT THIS DOES:
+ * - Cleans HTML rich text: only allow-listed tags and attributes survive,
+ *   <script>, <style>, <iframe> (and similar) are removed with their content
+ * - Rewrites internal links to the host application's URL scheme
+ *   (e.g., "/about" → "https://shop.example.com/content/about")
+ * - Adds rel="noopener" to external links
+ * - Applies the same link rules to JSON RTE documents (they are rendered
+ *   as React elements, so they need no HTML cleaning)
+ * - Only keeps JSON RTE embeds (iframes) from allow-listed origins
+ *   (CONTENTSTACK_EMBED_ORIGINS - e.g., YouTube, Vimeo); any other embed
+ *   becomes a plain link to its URL
+ *
+ * WHERE IT RUNS:
+ * - In the content layer (fetchEntries), so server rendering and client
+ *   refetches (navigation, live preview) get exactly the same content
+ *
+ * WHY AN ALLOW-LIST?
+ * - One bad paste in the CMS must not put markup on production pages that
+ *   we never meant to support; anything not listed here is dropped
+ */
+
+import type { IWhiteList } from "xss";
+import xss from "xss/lib/index.js";
+import type { JsonRteNode, JsonRteText } from "./types";
+
+// xss is a CommonJS module: its helpers are properties of the default
+// export (named imports don't resolve when Node loads it natively for SSR -
+// see the module declaration in src/vite-env.d.ts)
+const { cssFilter, escapeAttrValue, FilterXSS, safeAttrValue } = xss;
+
+/**
+ * Attributes allowed on every allow-listed tag
+ * - style is filtered too (unsafe CSS like url(javascript:...) is removed)
+ */
+const GLOBAL_ATTRIBUTES = ["class", "style", "id"];
+
+/**
+ * Tags rich text may contain, with their own attributes
+ * - a: rel is not listed - it's set by the link rules below
+ */
+const ALLOWED_TAGS: Record<string, string[]> = {
+  p: [],
+  br: [],
+  div: [],
+  span: [],
+  h1: [],
+  h2: [],
+  h3: [],
+  h4: [],
+  h5: [],
+  h6: [],
+  strong: [],
+  b: [],
+  em: [],
+  i: [],
+  u: [],
+  s: [],
+  del: [],
+  sub: [],
+  sup: [],
+  code: [],
+  pre: [],
+  blockquote: [],
+  ul: [],
+  ol: ["start"],
+  li: [],
+  hr: [],
+  a: ["href", "title", "target"],
+  img: ["src", "alt", "title", "width", "height"],
+  figure: [],
+  figcaption: [],
+  table: [],
+  thead: [],
+  tbody: [],
+  tfoot: [],
+  tr: [],
+  th: ["colspan", "rowspan", "scope"],
+  td: ["colspan", "rowspan"],
+};
+
+/** Tags removed together with their content (not just the tag) */
+const REMOVED_WITH_CONTENT = ["script", "style", "iframe", "object", "embed", "noscript", "template", "svg", "math"];
+
+/**
+ * How links are rewritten
+ * - base: Prefix for internal paths, the host application's URL scheme
+ *   (e.g., "/content" or "https://shop.example.com/content"); without it,
+ *   internal paths are left as they are
+ * - internalHosts: Hostnames whose absolute links count as internal
+ *   (e.g., the site editors copy links from), lowercase - they become paths first
+ * - embedOrigins: Origins embeds may load from (e.g., "https://www.youtube.com");
+ *   without it, every embed becomes a link
+ */
+export interface LinkOptions {
+  base?: string;
+  internalHosts?: string[];
+  embedOrigins?: string[];
+}
+
+/**
+ * Rewrite one link
+ *
+ * @returns The new href, and whether it points outside the site
+ *
+ * EXAMPLES (base: "/content", internalHosts: ["www.example.com"]):
+ * - "/about" → { href: "/content/about", external: false }
+ * - "https://www.example.com/about?x=1" → { href: "/content/about?x=1", external: false }
+ * - "https://github.com" → { href: "https://github.com", external: true }
+ * - "#top", "mailto:...", "./relative" → unchanged, external: false
+ */
+export function rewriteLink(href: string, { base, internalHosts = [] }: LinkOptions = {}): {
+  href: string;
+  external: boolean;
+} {
+  let path: string;
+
+  if (/^https?:\/\//i.test(href)) {
+    const url = URL.canParse(href) ? new URL(href) : null;
+    if (!url || !internalHosts.includes(url.hostname)) return { href, external: true };
+    path = `${url.pathname}${url.search}${url.hash}`;
+  } else if (href.startsWith("/") && !href.startsWith("//")) {
+    path = href;
+  } else {
+    // Fragments, mailto:, tel:, relative paths - nothing to rewrite
+    return { href, external: href.startsWith("//") };
+  }
+
+  return { href: base ? `${base.replace(/\/+$/, "")}${path}` : path, external: false };
+}
+
+/**
+ * Sanitize one HTML rich text value
+ *
+ * @param html - HTML from an HTML RTE field
+ * @param links - Link rewriting options
+ * @returns HTML with only allow-listed markup and rewritten links
+ */
+export function sanitizeHtml(html: string, links: LinkOptions = {}): string {
+  const allowList: IWhiteList = {};
+  for (const [tag, attributes] of Object.entries(ALLOWED_TAGS)) {
+    allowList[tag] = [...GLOBAL_ATTRIBUTES, ...attributes];
+  }
+
+  const filter = new FilterXSS({
+    allowList,
+    stripIgnoreTag: true,
+    stripIgnoreTagBody: REMOVED_WITH_CONTENT,
+    onTagAttr(tag, name, value) {
+      if (tag !== "a" || name !== "href") return undefined;
+
+      // Drop javascript:, data: and other unsafe schemes (same rules as src)
+      const safe = safeAttrValue(tag, name, value, cssFilter);
+      if (!safe) return "";
+
+      const link = rewriteLink(safe, links);
+      const href = `href="${escapeAttrValue(link.href)}"`;
+      return link.external ? `${href} rel="noopener"` : href;
+    },
+  });
+
+  return filter.process(html);
+}
+
+/**
+ * Check a URL from a JSON RTE node (same scheme rules as HTML)
+ */
+function isSafeUrl(tag: string, url: string): boolean {
+  return safeAttrValue(tag, tag === "a" ? "href" : "src", url, cssFilter) !== "";
+}
+
+/**
+ * Whether an embed URL loads from an allow-listed origin
+ */
+function isAllowedEmbed(url: string, embedOrigins: string[]): boolean {
+  return URL.canParse(url) && embedOrigins.includes(new URL(url).origin);
+}
+
+/**
+ * Turn an embed the allow-list rejects into a link to the same URL (in place)
+ * - The link text is the embed's title, or the URL itself
+ * - Without a usable URL, the embed renders nothing (empty fragment)
+ */
+function replaceEmbed(node: JsonRteNode, url: unknown): void {
+  const attrs = node.attrs ?? {};
+  if (typeof url !== "string" || !isSafeUrl("a", url)) {
+    node.type = "fragment";
+    node.attrs = {};
+    node.children = [];
+    return;
+  }
+  const title = typeof attrs.title === "string" && attrs.title ? attrs.title : url;
+  node.type = "a";
+  node.attrs = { url, target: "_blank" };
+  node.children = [{ text: title }];
+}
+
+/**
+ * Apply the link rules to a JSON RTE document (in place)
+ *
+ * WHAT THIS DOES:
+ * - embed: Kept when its url loads from an allow-listed origin
+ *   (links.embedOrigins), otherwise replaced by a link (see replaceEmbed)
+ * - a: Unsafe urls are removed, internal urls rewritten, external links
+ *   get attrs.rel = "noopener"
+ * - img / embed: Unsafe urls are removed
+ *
+ * @param node - Document (or any node)
+ * @param links - Link rewriting options
+ */
+export function sanitizeJsonRte(node: JsonRteNode, links: LinkOptions = {}): void {
+  if (node.type === "embed") {
+    const url = node.attrs?.src ?? node.attrs?.url;
+    if (typeof url !== "string" || !isAllowedEmbed(url, links.embedOrigins ?? [])) replaceEmbed(node, url);
+  }
+
+  const attrs = node.attrs;
+
+  if (attrs && node.type === "a" && typeof attrs.url === "string") {
+    if (isSafeUrl("a", attrs.url)) {
+      const link = rewriteLink(attrs.url, links);
+      attrs.url = link.href;
+      if (link.external) attrs.rel = "noopener";
+    } else {
+      delete attrs.url;
+    }
+  }
+
+  if (attrs && (node.type === "img" || node.type === "embed")) {
+    for (const name of ["url", "src"]) {
+      const value = attrs[name];
+      if (typeof value === "string" && !isSafeUrl(node.type, value)) delete attrs[name];
+    }
+  }
+
+  node.children?.forEach((child: JsonRteNode | JsonRteText) => {
+    if (!("text" in child)) sanitizeJsonRte(child, links);
+  });
+}
+
+/**
+ * Sanitize the value at a field path (in place)
+ * - Paths go through arrays: "blocks.block.copy" visits the copy of every
+ *   "block" in the blocks field
+ */
+function sanitizePath(target: unknown, path: string[], links: LinkOptions): void {
+  if (Array.isArray(target)) {
+    target.forEach((item) => sanitizePath(item, path, links));
+    return;
+  }
+  if (!target || typeof target !== "object" || !path.length) return;
+
+  const record = target as Record<string, unknown>;
+  const [field, ...rest] = path;
+  const value = record[field];
+
+  if (rest.length) {
+    sanitizePath(value, rest, links);
+  } else if (typeof value === "string") {
+    record[field] = sanitizeHtml(value, links);
+  } else if (value && typeof value === "object" && (value as JsonRteNode).type === "doc") {
+    sanitizeJsonRte(value as JsonRteNode, links);
+  }
+}
+
+/**
+ * Sanitize every rich text field of an entry and the entries inside it
+ * (references, embedded items) - in place
+ *
+ * @param entry - Entry as returned by the delivery SDK
+ * @param fields - Rich text field paths by content type uid
+ * @param links - Link rewriting options
+ *
+ * HOW IT FINDS NESTED ENTRIES:
+ * - Any object with uid and _content_type_uid is an entry; its own content
+ *   type's fields are sanitized
+ */
+export function sanitizeEntry(
+  entry: unknown,
+  fields: Record<string, string[]>,
+  links: LinkOptions = {}
+): void {
+  const visit = (value: unknown): void => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!value || typeof value !== "object") return;
+
+    const record = value as Record<string, unknown>;
+    const contentType = record._content_type_uid;
+    if (typeof contentType === "string" && record.uid && Object.hasOwn(fields, contentType)) {
+      fields[contentType].forEach((path) => sanitizePath(record, path.split("."), links));
+    }
+    Object.entries(record).forEach(([key, child]) => {
+      // Editable tags hold no content
+      if (key !== "$") visit(child);
+    });
+  };
+
+  visit(entry);
+}
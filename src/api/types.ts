@@ -0,0 +1,275 @@
+/**
+ * Content types - the shapes of Contentstack entries, shared by server
+ * rendering and the browser
+ *
+ * WHY A SEPARATE MODULE?
+ * - Code that only needs the shapes (the content API client, components,
+ *   src/api/sanitize.ts) doesn't depend on the Contentstack SDKs
+ * - Only types here (and from server/types.ts, where the request types
+ *   live, so the server shares the same definitions)
+ */
+
+import type { PreviewTimeline } from "../../server/types";
+
+/** Live preview data attributes */
+export interface CSLPAttribute {
+  "data-cslp"?: string;
+}
+
+/** Image/file asset from Contentstack */
+export interface ContentstackFile {
+  uid: string;
+  url: string;
+  title: string;
+  filename: string;
+  content_type: string;
+  $?: Record<string, CSLPAttribute>;
+}
+
+/**
+ * JSON RTE text leaf - text plus its marks
+ *
+ * EXAMPLE:
+ * { "text": "Hello", "bold": true, "italic": true }
+ */
+export interface JsonRteText {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  inlineCode?: boolean;
+  subscript?: boolean;
+  superscript?: boolean;
+}
+
+/** Mark (text format) a JSON RTE text leaf can have */
+export type JsonRteMark = Exclude<keyof JsonRteText, "text">;
+
+/**
+ * JSON RTE element node (paragraph, heading, list, link, reference, ...)
+ * - type: Node type ("p", "h2", "ul", "a", "reference", ...)
+ * - attrs: Node attributes (e.g., url for links, entry-uid for references)
+ *
+ * EXAMPLE:
+ * { "type": "a", "uid": "ab12", "attrs": { "url": "/about" }, "children": [{ "text": "About" }] }
+ */
+export interface JsonRteNode {
+  type: string;
+  uid?: string;
+  attrs?: Record<string, unknown>;
+  children?: (JsonRteNode | JsonRteText)[];
+}
+
+/** JSON RTE field value (the root node) */
+export interface JsonRteDocument extends JsonRteNode {
+  type: "doc";
+}
+
+/**
+ * Rich text field value
+ * - string: HTML RTE
+ * - JsonRteDocument: JSON RTE
+ */
+export type RichTextValue = string | JsonRteDocument;
+
+/**
+ * Entry or asset embedded in a JSON RTE field
+ * - Assets have _content_type_uid "sys_assets"
+ */
+export type EmbeddedItem = BaseEntry | (ContentstackFile & { _content_type_uid: "sys_assets" });
+
+/** Link field ({ title, href }) */
+export interface ContentstackLink {
+  title?: string;
+  href?: string;
+}
+
+/** Fields every modular block has */
+export interface BlockFields {
+  _metadata?: { uid: string };
+  $?: Record<string, CSLPAttribute>;
+}
+
+/** "block" - generic content block (title, copy, optional image) */
+export interface ContentBlock extends BlockFields {
+  title?: string;
+  copy?: RichTextValue;
+  image?: ContentstackFile | null;
+  layout?: "image_left" | "image_right" | null;
+}
+
+/** "hero" - large heading with optional background image and link */
+export interface HeroBlock extends BlockFields {
+  title?: string;
+  subtitle?: string;
+  image?: ContentstackFile | null;
+  link?: ContentstackLink | null;
+}
+
+/** "cta" - call to action */
+export interface CtaBlock extends BlockFields {
+  title?: string;
+  text?: string;
+  link?: ContentstackLink | null;
+}
+
+/** One card in a "card_grid" block (group field) */
+export interface Card {
+  title?: string;
+  description?: string;
+  image?: ContentstackFile | null;
+  link?: ContentstackLink | null;
+  _metadata?: { uid: string };
+  $?: Record<string, CSLPAttribute>;
+}
+
+/** "card_grid" - grid of cards */
+export interface CardGridBlock extends BlockFields {
+  title?: string;
+  cards?: Card[];
+}
+
+/** "video" - uploaded video file */
+export interface VideoBlock extends BlockFields {
+  title?: string;
+  video?: ContentstackFile | null;
+  caption?: string;
+}
+
+/** "quote" - pull quote */
+export interface QuoteBlock extends BlockFields {
+  quote?: string;
+  author?: string;
+  role?: string;
+}
+
+/**
+ * Modular block fields by block uid
+ *
+ * The keys are the block uids from the "blocks" field of the page content
+ * type. Add a block type by adding it here and registering a component for
+ * it (see src/components/blocks/registry.tsx).
+ */
+export interface BlockTypes {
+  block: ContentBlock;
+  hero: HeroBlock;
+  cta: CtaBlock;
+  card_grid: CardGridBlock;
+  video: VideoBlock;
+  quote: QuoteBlock;
+}
+
+/** Uid of a known block type (e.g., "hero") */
+export type BlockType = keyof BlockTypes;
+
+/**
+ * Block wrapper (how Contentstack returns modular blocks)
+ * - A single key naming the block type, holding that block's fields
+ * - Stacks may return block types this app doesn't know (yet)
+ *
+ * EXAMPLE:
+ * { "hero": { "title": "Welcome", "_metadata": { "uid": "cs1a2b3c" } } }
+ */
+export type BlockWrapper = Partial<BlockTypes> & { uid?: string };
+
+/**
+ * A modular block, discriminated by type
+ *
+ * EXAMPLE:
+ * { type: "hero", uid: "cs1a2b3c", fields: { title: "Welcome", ... } }
+ *
+ * USAGE:
+ * if (block.type === "quote") block.fields.author; // fields: QuoteBlock
+ */
+export type Block = {
+  [K in BlockType]: { type: K; uid?: string; fields: BlockTypes[K] };
+}[BlockType];
+
+/**
+ * Reference field - the referenced entries
+ * - Resolved entries when the field is listed in contentTypeReferences,
+ *   otherwise only { uid, _content_type_uid } per entry
+ */
+export type Reference<T extends BaseEntry> = T[];
+
+/** Fields of T that are Reference<...> fields */
+type ReferenceFields<T> = {
+  [K in keyof T]-?: NonNullable<T[K]> extends Reference<BaseEntry> ? K : never;
+}[keyof T];
+
+/** Entry type a reference field points to */
+type Referenced<T, K extends keyof T> = NonNullable<T[K]> extends Reference<infer R> ? R : never;
+
+/**
+ * Reference fields to resolve for entries of type T
+ * - true: Resolve the field
+ * - nested tree: Resolve the field and, in the referenced entries, these fields
+ */
+export type ReferenceTree<T> = {
+  [K in ReferenceFields<T>]?: true | ReferenceTree<Referenced<T, K>>;
+};
+
+/**
+ * Fields every routed entry has
+ * - _content_type_uid: Set by fetchEntries, so rendering code knows which
+ *   content type (and page component) an entry belongs to
+ * - _embedded_items: Entries and assets embedded in JSON RTE fields, by field path
+ * - locale: Locale the entry was fetched in (a fallback locale when the
+ *   requested one has no version of it)
+ */
+export interface BaseEntry {
+  uid: string;
+  title: string;
+  url?: string;
+  locale?: string;
+  _content_type_uid?: string;
+  _embedded_items?: Record<string, EmbeddedItem[]>;
+  $?: Record<string, CSLPAttribute>;
+}
+
+/** Page content type */
+export interface Page extends BaseEntry {
+  description?: string;
+  image?: ContentstackFile | null;
+  rich_text?: RichTextValue;
+  blocks?: BlockWrapper[];
+  related_pages?: Reference<Page>;
+}
+
+/** Author content type (referenced by articles) */
+export interface Author extends BaseEntry {
+  role?: string;
+  image?: ContentstackFile | null;
+}
+
+/** Article content type (blog posts, routed under /blog) */
+export interface Article extends BaseEntry {
+  summary?: string;
+  date?: string;
+  author?: Reference<Author>;
+  image?: ContentstackFile | null;
+  body?: RichTextValue;
+  related_articles?: Reference<Article>;
+}
+
+/** Product content type (routed under /products) */
+export interface Product extends BaseEntry {
+  sku?: string;
+  description?: string;
+  price?: number;
+  currency?: string;
+  image?: ContentstackFile | null;
+  related_products?: Reference<Product>;
+}
+
+/** Props passed to render function */
+export interface RenderProps {
+  content?: BaseEntry | null;
+  /** Pending content (streaming render - the shell is sent before it resolves) */
+  contentPromise?: Promise<BaseEntry | null>;
+  /** Locale of the request (see src/api/locales.ts) - defaults to the default locale */
+  locale?: string;
+  /** Timeline / release being previewed (preview requests only) */
+  timeline?: PreviewTimeline;
+}
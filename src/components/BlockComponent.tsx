@@ -1,16 +1,15 @@
 /**
  * Block component - renders a content block with optional image
+ * (block type "block", see src/components/blocks/registry.tsx)
  *
  * WHAT THIS COMPONENT DOES:
  * - Renders a reusable content block (title, text, optional image)
  * - Supports two layouts: text-only or image + text
  * - Handles live preview editable attributes
  *
- * IMPORTANT: Uses <div> for HTML content
- * - Contentstack returns HTML that may contain <p> tags
- * - If we wrapped it in <p>, we'd get invalid nesting: <p><p>...</p></p>
- * - Invalid HTML causes React hydration mismatches
- * - <div> can contain any HTML, so it's safe
+ * RICH TEXT:
+ * - copy may be HTML RTE or JSON RTE; RichText renders both (inside a
+ *   <div>, since the content contains <p> tags)
  *
  * LIVE PREVIEW:
  * - block.$?.title, block.$?.copy, block.$?.image contain editable attributes
@@ -18,16 +17,14 @@
  * - Contentstack uses these to show edit buttons in preview mode
  */
 
-import type { Block } from "../api/contentstack";
+import type { ContentBlock } from "../api/contentstack";
+import { RichText } from "./RichText";
 
 interface BlockComponentProps {
-  block: Block;
+  block: ContentBlock;
 }
 
 export function BlockComponent({ block }: BlockComponentProps) {
-  // Get HTML content (may be empty)
-  const copyHtml = block.copy || "";
-
   // Text-only layout (no image)
   // Render simpler layout when there's no image
   if (!block.image?.url) {
@@ -41,15 +38,8 @@ export function BlockComponent({ block }: BlockComponentProps) {
             {block.title}
           </h2>
         )}
-        {/* Render HTML content using dangerouslySetInnerHTML */}
-        {/* Safe here because content comes from Contentstack CMS */}
-        {copyHtml && (
-          <div
-            {...block.$?.copy}
-            className="text-gray-600 prose prose-sm max-w-none"
-            dangerouslySetInnerHTML={{ __html: copyHtml }}
-          />
-        )}
+        {/* Rich text: HTML or JSON RTE */}
+        <RichText value={block.copy} field={block.$?.copy} className="text-gray-600 prose prose-sm max-w-none" />
       </article>
     );
   }
@@ -76,13 +66,11 @@ export function BlockComponent({ block }: BlockComponentProps) {
             {block.title}
           </h2>
         )}
-        {copyHtml && (
-          <div
-            {...block.$?.copy}
-            className="text-gray-600 leading-relaxed prose prose-sm max-w-none"
-            dangerouslySetInnerHTML={{ __html: copyHtml }}
-          />
-        )}
+        <RichText
+          value={block.copy}
+          field={block.$?.copy}
+          className="text-gray-600 leading-relaxed prose prose-sm max-w-none"
+        />
       </div>
     </article>
   );
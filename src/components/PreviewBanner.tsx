@@ -0,0 +1,45 @@
+/**
+ * Preview banner - tells editors which point in time they're looking at
+ *
+ * WHAT THIS COMPONENT DOES:
+ * - Renders nothing unless the page is a Timeline or release preview
+ *   (see usePreviewTimeline)
+ * - Names the previewed publish date and/or release
+ *
+ * WHY UTC?
+ * - The server and the browser must format the date identically, or
+ *   hydration doesn't line up; the reader's time zone isn't known on the server
+ */
+
+import { useLocale } from "../hooks/useLocale";
+import { usePreviewTimeline } from "../hooks/usePreviewTimeline";
+
+export function PreviewBanner() {
+  const locale = useLocale();
+  const timeline = usePreviewTimeline();
+  if (!timeline) return null;
+
+  const { preview_timestamp, release_id } = timeline;
+  const date = preview_timestamp
+    ? new Intl.DateTimeFormat(locale, { dateStyle: "long", timeStyle: "short", timeZone: "UTC" }).format(
+        new Date(preview_timestamp)
+      )
+    : null;
+
+  return (
+    <aside className="bg-indigo-50 border border-indigo-200 rounded-lg px-4 py-3 mb-6 text-indigo-900" role="status">
+      <strong>Preview:</strong>{" "}
+      {date && (
+        <>
+          content as of <time dateTime={preview_timestamp}>{date} UTC</time>
+        </>
+      )}
+      {date && release_id && ", "}
+      {release_id && (
+        <>
+          release <code className="bg-indigo-100 px-1 rounded font-mono text-sm">{release_id}</code>
+        </>
+      )}
+    </aside>
+  );
+}
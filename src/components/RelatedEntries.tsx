@@ -0,0 +1,45 @@
+/**
+ * Related entries - list of links to referenced entries
+ *
+ * WHAT THIS COMPONENT DOES:
+ * - Renders a reference field (e.g., related_pages) as a list of links
+ * - Skips references that weren't resolved (only { uid, _content_type_uid }),
+ *   or that have no url
+ * - Links stay in the current locale (e.g., "/fr-fr/a-propos")
+ *
+ * LIVE PREVIEW:
+ * - field: The reference field's own editable attributes (on the list)
+ * - Each referenced entry has its own editable tags (entry.$), pointing
+ *   at that entry - editors edit the referenced entry's title in place
+ */
+
+import type { BaseEntry, CSLPAttribute, Reference } from "../api/contentstack";
+import { localizePath } from "../api/locales";
+import { useLocale } from "../hooks/useLocale";
+
+interface RelatedEntriesProps {
+  title: string;
+  entries?: Reference<BaseEntry>;
+  field?: CSLPAttribute;
+}
+
+export function RelatedEntries({ title, entries, field }: RelatedEntriesProps) {
+  const locale = useLocale();
+  const links = entries?.filter((entry): entry is BaseEntry & { url: string } => !!entry.url && !!entry.title) ?? [];
+  if (!links.length) return null;
+
+  return (
+    <nav className="mt-12 pt-6 border-t border-gray-200" aria-label={title}>
+      <h2 className="text-xl font-semibold mb-3">{title}</h2>
+      <ul {...field} className="space-y-2 list-none p-0 m-0">
+        {links.map((entry) => (
+          <li key={entry.uid}>
+            <a {...entry.$?.title} href={localizePath(entry.url, locale)} className="text-slate-900 underline">
+              {entry.title}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </nav>
+  );
+}
@@ -0,0 +1,448 @@
+/**
+ * Rich text - renders HTML RTE and JSON RTE field values
+ *
+ * WHAT THIS COMPONENT DOES:
+ * - HTML RTE (string): injects the HTML (dangerouslySetInnerHTML) - the
+ *   content layer already cleaned it (sanitizeEntry, src/api/sanitize.ts)
+ * - JSON RTE (document): converts each node to a React element
+ * - Embedded entries render with their block component (block registry,
+ *   keyed by the entry's content type), embedded assets as images,
+ *   videos (video block) or download links
+ * - Node and mark renderers can be replaced, app-wide or per field
+ *
+ * LIVE PREVIEW:
+ * - The wrapper carries the field's editable attributes (field={content.$?.body})
+ * - Embedded entries keep their own editable tags (entry.$), so block
+ *   components make their fields editable in place
+ *
+ * HYDRATION:
+ * - The output only depends on the document and the embedded items (no
+ *   dates, generated ids or browser APIs), so server and client render
+ *   the same markup
+ * - Keys are node uids, falling back to the child index
+ *
+ * USAGE:
+ * <RichText value={content.body} field={content.$?.body} className="prose" />
+ */
+
+import {
+  createContext,
+  createElement,
+  Fragment,
+  Suspense,
+  useContext,
+  useMemo,
+  type ComponentType,
+  type CSSProperties,
+  type ReactNode,
+} from "react";
+import type {
+  BlockWrapper,
+  ContentstackFile,
+  CSLPAttribute,
+  EmbeddedItem,
+  JsonRteMark,
+  JsonRteNode,
+  JsonRteText,
+  RichTextValue,
+} from "../api/contentstack";
+import { ModularBlock } from "./blocks/registry";
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+/**
+ * Attributes taken from a node's attrs (id, class-name, style)
+ * - Spread them onto the rendered element to keep editor styling
+ */
+export interface NodeAttributes {
+  id?: string;
+  className?: string;
+  style?: CSSProperties;
+}
+
+/** Props every node renderer receives */
+export interface NodeRendererProps {
+  node: JsonRteNode;
+  attributes: NodeAttributes;
+  children?: ReactNode;
+}
+
+/** Props every mark renderer receives (leaf: the text leaf being formatted) */
+export interface MarkRendererProps {
+  leaf: JsonRteText;
+  children: ReactNode;
+}
+
+export type NodeRenderer = ComponentType<NodeRendererProps>;
+export type MarkRenderer = ComponentType<MarkRendererProps>;
+
+/**
+ * Renderer overrides
+ * - nodes: By node type ("p", "h2", "a", "reference", ...)
+ * - marks: By mark ("bold", "italic", ...)
+ */
+export interface RichTextRenderers {
+  nodes?: Record<string, NodeRenderer>;
+  marks?: Partial<Record<JsonRteMark, MarkRenderer>>;
+}
+
+/**
+ * Renderer for a plain element (e.g., "h2" → <h2>)
+ */
+function element(tag: string): NodeRenderer {
+  return function RichTextElement({ attributes, children }: NodeRendererProps) {
+    return createElement(tag, attributes, children);
+  };
+}
+
+/**
+ * Read a string attribute of a node (undefined when missing or not a string)
+ */
+function getAttr(node: JsonRteNode, name: string): string | undefined {
+  const value = node.attrs?.[name];
+  return typeof value === "string" && value ? value : undefined;
+}
+
+/** Renders only the children (document root, fragments, unknown node types) */
+function Children({ children }: NodeRendererProps) {
+  return <>{children}</>;
+}
+
+/**
+ * Node renderers, by node type
+ * - Replace an entry to change how a node type renders everywhere
+ *   (at module load, on server and client alike, or hydration will mismatch)
+ * - Node types without a renderer render their children only
+ *
+ * EXAMPLE:
+ * nodeRenderers.h2 = ({ attributes, children }) => <h2 {...attributes} className="text-2xl">{children}</h2>;
+ */
+export const nodeRenderers: Record<string, NodeRenderer> = {
+  doc: Children,
+  fragment: Children,
+  p: element("p"),
+  h1: element("h1"),
+  h2: element("h2"),
+  h3: element("h3"),
+  h4: element("h4"),
+  h5: element("h5"),
+  h6: element("h6"),
+  blockquote: element("blockquote"),
+  ol: element("ol"),
+  ul: element("ul"),
+  li: element("li"),
+  table: element("table"),
+  thead: element("thead"),
+  tbody: element("tbody"),
+  tr: element("tr"),
+  th: element("th"),
+  td: element("td"),
+  span: element("span"),
+  code: ({ attributes, children }) => (
+    <pre {...attributes}>
+      <code>{children}</code>
+    </pre>
+  ),
+  hr: ({ attributes }) => <hr {...attributes} />,
+  a: ({ node, attributes, children }) => {
+    const target = getAttr(node, "target");
+    return (
+      <a
+        {...attributes}
+        href={getAttr(node, "url")}
+        target={target}
+        // rel="noopener" is set on external links by the content layer (sanitize.ts)
+        rel={getAttr(node, "rel") ?? (target === "_blank" ? "noopener noreferrer" : undefined)}
+      >
+        {children}
+      </a>
+    );
+  },
+  img: ({ node, attributes }) => (
+    <img {...attributes} src={getAttr(node, "url") ?? getAttr(node, "src")} alt={getAttr(node, "alt") ?? ""} />
+  ),
+  // Only allow-listed origins reach this point (see CONTENTSTACK_EMBED_ORIGINS
+  // in src/api/sanitize.ts); the sandbox still keeps the player from
+  // navigating the host page or opening forms and downloads
+  embed: ({ node, attributes }) => (
+    <iframe
+      {...attributes}
+      src={getAttr(node, "src") ?? getAttr(node, "url")}
+      title={getAttr(node, "title") ?? "Embedded content"}
+      sandbox="allow-scripts allow-same-origin allow-presentation allow-popups"
+      referrerPolicy="strict-origin-when-cross-origin"
+      allowFullScreen
+    />
+  ),
+  reference: Reference,
+};
+
+/**
+ * Mark renderers, by mark
+ * - Replace an entry to change how a mark renders everywhere (see nodeRenderers)
+ */
+export const markRenderers: Record<JsonRteMark, MarkRenderer> = {
+  bold: ({ children }) => <strong>{children}</strong>,
+  italic: ({ children }) => <em>{children}</em>,
+  underline: ({ children }) => <u>{children}</u>,
+  strikethrough: ({ children }) => <s>{children}</s>,
+  inlineCode: ({ children }) => <code>{children}</code>,
+  subscript: ({ children }) => <sub>{children}</sub>,
+  superscript: ({ children }) => <sup>{children}</sup>,
+};
+
+/**
+ * Order marks are applied in (innermost first)
+ * - Fixed, so a leaf always renders the same nesting
+ */
+const MARK_ORDER: JsonRteMark[] = [
+  "inlineCode",
+  "subscript",
+  "superscript",
+  "strikethrough",
+  "underline",
+  "italic",
+  "bold",
+];
+
+/** Renderers in effect (defaults merged with the field's overrides) */
+const RenderersContext = createContext<Required<RichTextRenderers> | null>(null);
+
+function useRenderers(): Required<RichTextRenderers> {
+  return useContext(RenderersContext) ?? { nodes: nodeRenderers, marks: markRenderers };
+}
+
+// ============================================================================
+// Embedded items
+// ============================================================================
+
+/** Entries and assets embedded in the rendered entry's JSON RTE fields */
+const EmbeddedItemsContext = createContext<EmbeddedItem[]>([]);
+
+/**
+ * Make an entry's embedded items available to the rich text inside
+ * - Wrap the rendered entry once (App does this for every routed entry);
+ *   any RichText below, including inside modular blocks, finds them
+ *
+ * @param items - The entry's _embedded_items (by field path)
+ */
+export function EmbeddedItemsProvider({
+  items,
+  children,
+}: {
+  items?: Record<string, EmbeddedItem[]>;
+  children: ReactNode;
+}) {
+  const flattened = useMemo(() => Object.values(items ?? {}).flat(), [items]);
+  return <EmbeddedItemsContext.Provider value={flattened}>{children}</EmbeddedItemsContext.Provider>;
+}
+
+function isAsset(item: EmbeddedItem): item is Extract<EmbeddedItem, { _content_type_uid: "sys_assets" }> {
+  return item._content_type_uid === "sys_assets";
+}
+
+/** Whether a node has any visible text (link references carry their own label) */
+function hasText(node: JsonRteNode): boolean {
+  return (node.children ?? []).some((child) => ("text" in child ? child.text !== "" : hasText(child)));
+}
+
+/**
+ * Default renderer for "reference" nodes (embedded entries and assets)
+ *
+ * DISPLAY TYPES (attrs["display-type"]):
+ * - Entries: "block" → block component for the entry's content type,
+ *   "inline" → the entry title, "link" → link to the entry's url
+ * - Assets: "display" → image (or video block for videos),
+ *   "download" → download link
+ *
+ * NOTE: Block and display references are top-level nodes in the editor,
+ * so their block-level markup never ends up inside a <p>.
+ */
+function Reference({ node, attributes, children }: NodeRendererProps) {
+  const items = useContext(EmbeddedItemsContext);
+  const displayType = getAttr(node, "display-type");
+
+  if (getAttr(node, "type") === "asset") {
+    const uid = getAttr(node, "asset-uid");
+    const embedded = items.find((item) => item.uid === uid);
+    // Fall back to the attributes the editor stores on the node
+    const asset: ContentstackFile = embedded && isAsset(embedded)
+      ? embedded
+      : {
+          uid: uid ?? "",
+          url: getAttr(node, "asset-link") ?? "",
+          title: getAttr(node, "asset-name") ?? "",
+          filename: getAttr(node, "asset-name") ?? "",
+          content_type: getAttr(node, "asset-type") ?? "",
+        };
+    if (!asset.url) return null;
+
+    if (displayType === "download") {
+      return (
+        <a {...attributes} href={asset.url} download>
+          {hasText(node) ? children : asset.title || asset.filename}
+        </a>
+      );
+    }
+    if (asset.content_type.startsWith("video/")) {
+      return (
+        <Suspense fallback={null}>
+          <ModularBlock wrapper={{ video: { video: asset } }} />
+        </Suspense>
+      );
+    }
+    return <img {...attributes} src={asset.url} alt={getAttr(node, "asset-alt") ?? asset.title ?? ""} />;
+  }
+
+  const uid = getAttr(node, "entry-uid");
+  const entry = items.find((item) => item.uid === uid);
+
+  if (displayType === "link") {
+    const href = (entry && "url" in entry ? entry.url : undefined) ?? getAttr(node, "href");
+    return (
+      <a {...attributes} href={href}>
+        {hasText(node) ? children : entry?.title}
+      </a>
+    );
+  }
+  if (!entry) return null;
+
+  if (displayType === "inline") {
+    return (
+      <span {...attributes} {...entry.$?.title}>
+        {entry.title}
+      </span>
+    );
+  }
+
+  // Block: the content type decides the component (e.g., an embedded
+  // "quote" entry renders like a quote block)
+  const contentType = getAttr(node, "content-type-uid") ?? entry._content_type_uid ?? "";
+  return (
+    <Suspense fallback={null}>
+      <ModularBlock wrapper={{ [contentType]: entry } as BlockWrapper} />
+    </Suspense>
+  );
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Convert attrs.style ({ "text-align": "center" }) to a React style object
+ */
+function toStyle(style: unknown): CSSProperties | undefined {
+  if (!style || typeof style !== "object") return undefined;
+
+  const entries = Object.entries(style).filter(
+    ([, value]) => typeof value === "string" || typeof value === "number"
+  );
+  if (!entries.length) return undefined;
+
+  return Object.fromEntries(
+    entries.map(([property, value]) => [property.replace(/-([a-z])/g, (_, char: string) => char.toUpperCase()), value])
+  );
+}
+
+function getAttributes(node: JsonRteNode): NodeAttributes {
+  return {
+    id: getAttr(node, "id"),
+    className: getAttr(node, "class-name"),
+    style: toStyle(node.attrs?.style),
+  };
+}
+
+/**
+ * Render a text leaf with its marks
+ * - Line breaks (shift+enter in the editor) become <br />
+ */
+function RichTextLeaf({ leaf }: { leaf: JsonRteText }) {
+  const { marks } = useRenderers();
+
+  const lines = leaf.text.split("\n");
+  let content: ReactNode =
+    lines.length === 1
+      ? leaf.text
+      : lines.map((line, index) => (
+          <Fragment key={index}>
+            {index > 0 && <br />}
+            {line}
+          </Fragment>
+        ));
+
+  for (const mark of MARK_ORDER) {
+    const Mark = marks[mark];
+    if (leaf[mark] && Mark) content = <Mark leaf={leaf}>{content}</Mark>;
+  }
+  return <>{content}</>;
+}
+
+/**
+ * Render a node and its children with the renderer for its type
+ */
+function RichTextNode({ node }: { node: JsonRteNode }) {
+  const { nodes } = useRenderers();
+  const Renderer = nodes[node.type] ?? Children;
+
+  return (
+    <Renderer node={node} attributes={getAttributes(node)}>
+      {node.children?.map((child, index) =>
+        "text" in child ? (
+          <RichTextLeaf key={index} leaf={child} />
+        ) : (
+          <RichTextNode key={child.uid ?? index} node={child} />
+        )
+      )}
+    </Renderer>
+  );
+}
+
+/**
+ * Props for RichText
+ * - value: Field value (HTML string or JSON RTE document)
+ * - field: The field's editable attributes (content.$?.<field>)
+ * - renderers: Node/mark renderers for this field only
+ */
+export interface RichTextProps {
+  value?: RichTextValue | null;
+  className?: string;
+  field?: CSLPAttribute;
+  renderers?: RichTextRenderers;
+}
+
+/**
+ * Render a rich text field (HTML or JSON RTE) inside a <div>
+ *
+ * IMPORTANT: Uses <div> for the wrapper
+ * - Rich text contains block elements (<p>, <ul>, ...)
+ * - Wrapping them in <p> would be invalid HTML and break hydration
+ */
+export function RichText({ value, className, field, renderers }: RichTextProps) {
+  const parent = useRenderers();
+  const merged = useMemo(
+    () => ({
+      nodes: { ...parent.nodes, ...renderers?.nodes },
+      marks: { ...parent.marks, ...renderers?.marks },
+    }),
+    [parent, renderers]
+  );
+
+  if (!value) return null;
+
+  // HTML RTE - safe to inject because sanitizeEntry cleaned the field in the
+  // content layer (fetchEntries, see src/api/sanitize.ts)
+  if (typeof value === "string") {
+    return <div {...field} className={className} dangerouslySetInnerHTML={{ __html: value }} />;
+  }
+
+  return (
+    <div {...field} className={className}>
+      <RenderersContext.Provider value={merged}>
+        <RichTextNode node={value} />
+      </RenderersContext.Provider>
+    </div>
+  );
+}
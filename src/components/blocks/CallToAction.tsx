@@ -0,0 +1,35 @@
+/**
+ * Call to action block - short text with a prominent link
+ */
+
+import type { CtaBlock } from "../../api/contentstack";
+
+interface CallToActionProps {
+  block: CtaBlock;
+}
+
+export function CallToAction({ block }: CallToActionProps) {
+  return (
+    <aside className="p-8 rounded-lg bg-gray-50 text-center">
+      {block.title && (
+        <h2 {...block.$?.title} className="text-2xl font-semibold mb-2">
+          {block.title}
+        </h2>
+      )}
+      {block.text && (
+        <p {...block.$?.text} className="text-gray-600 mb-6">
+          {block.text}
+        </p>
+      )}
+      {block.link?.href && (
+        <a
+          {...block.$?.link}
+          href={block.link.href}
+          className="inline-block px-6 py-3 rounded-lg bg-slate-900 text-white font-semibold"
+        >
+          {block.link.title || block.link.href}
+        </a>
+      )}
+    </aside>
+  );
+}
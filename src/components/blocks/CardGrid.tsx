@@ -0,0 +1,67 @@
+/**
+ * Card grid block - responsive grid of cards
+ *
+ * LAYOUT:
+ * - 1 column on mobile, 2 on tablets, 3 on desktop
+ * - A card with a link is clickable as a whole
+ */
+
+import type { Card, CardGridBlock } from "../../api/contentstack";
+
+interface CardGridProps {
+  block: CardGridBlock;
+}
+
+function CardContent({ card }: { card: Card }) {
+  return (
+    <>
+      {card.image?.url && (
+        <img
+          {...card.$?.image}
+          src={card.image.url}
+          alt={card.image.title || card.title || ""}
+          className="w-full h-40 object-cover rounded-t-lg"
+        />
+      )}
+      <div className="p-4">
+        {card.title && (
+          <h3 {...card.$?.title} className="text-lg font-semibold mb-1">
+            {card.title}
+          </h3>
+        )}
+        {card.description && (
+          <p {...card.$?.description} className="text-gray-600 text-sm">
+            {card.description}
+          </p>
+        )}
+      </div>
+    </>
+  );
+}
+
+export function CardGrid({ block }: CardGridProps) {
+  if (!block.cards?.length) return null;
+
+  return (
+    <section>
+      {block.title && (
+        <h2 {...block.$?.title} className="text-2xl font-semibold mb-4">
+          {block.title}
+        </h2>
+      )}
+      <ul className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3 list-none p-0 m-0">
+        {block.cards.map((card, index) => (
+          <li key={card._metadata?.uid ?? index} className="bg-gray-50 rounded-lg">
+            {card.link?.href ? (
+              <a href={card.link.href} className="block text-inherit no-underline">
+                <CardContent card={card} />
+              </a>
+            ) : (
+              <CardContent card={card} />
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,49 @@
+/**
+ * Hero block - large heading with optional image and link
+ *
+ * LAYOUT:
+ * - With image: text over the image (dark overlay keeps it readable)
+ * - Without image: text on a dark background
+ */
+
+import type { HeroBlock } from "../../api/contentstack";
+
+interface HeroProps {
+  block: HeroBlock;
+}
+
+export function Hero({ block }: HeroProps) {
+  return (
+    <section className="relative overflow-hidden rounded-lg bg-slate-900 text-white">
+      {block.image?.url && (
+        <img
+          {...block.$?.image}
+          src={block.image.url}
+          alt=""
+          className="absolute inset-0 w-full h-full object-cover opacity-40"
+        />
+      )}
+      <div className="relative px-8 py-16">
+        {block.title && (
+          <h2 {...block.$?.title} className="text-4xl font-bold mb-4">
+            {block.title}
+          </h2>
+        )}
+        {block.subtitle && (
+          <p {...block.$?.subtitle} className="text-lg mb-6 max-w-2xl">
+            {block.subtitle}
+          </p>
+        )}
+        {block.link?.href && (
+          <a
+            {...block.$?.link}
+            href={block.link.href}
+            className="inline-block px-6 py-3 rounded-lg bg-white text-slate-900 font-semibold"
+          >
+            {block.link.title || block.link.href}
+          </a>
+        )}
+      </div>
+    </section>
+  );
+}
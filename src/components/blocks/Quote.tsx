@@ -0,0 +1,27 @@
+/**
+ * Quote block - pull quote with attribution
+ */
+
+import type { QuoteBlock } from "../../api/contentstack";
+
+interface QuoteProps {
+  block: QuoteBlock;
+}
+
+export function Quote({ block }: QuoteProps) {
+  if (!block.quote) return null;
+
+  return (
+    <figure className="m-0 pl-6 border-l-4 border-slate-900">
+      <blockquote {...block.$?.quote} className="text-xl italic mb-2">
+        {block.quote}
+      </blockquote>
+      {block.author && (
+        <figcaption className="text-gray-600">
+          <span {...block.$?.author}>{block.author}</span>
+          {block.role && <span {...block.$?.role}>, {block.role}</span>}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * Video block - uploaded video asset with optional caption
+ *
+ * NOTE: preload="metadata" keeps the page light - the video itself only
+ * downloads when the visitor presses play.
+ */
+
+import type { VideoBlock } from "../../api/contentstack";
+
+interface VideoProps {
+  block: VideoBlock;
+}
+
+export function Video({ block }: VideoProps) {
+  if (!block.video?.url) return null;
+
+  return (
+    <figure className="m-0">
+      <video
+        {...block.$?.video}
+        src={block.video.url}
+        title={block.title || block.video.title}
+        controls
+        preload="metadata"
+        className="w-full rounded-lg"
+      />
+      {block.caption && (
+        <figcaption {...block.$?.caption} className="text-sm text-gray-600 mt-2">
+          {block.caption}
+        </figcaption>
+      )}
+    </figure>
+  );
+}
@@ -0,0 +1,141 @@
+/**
+ * Modular block registry - maps Contentstack block uids to components
+ *
+ * WHAT THIS DOES:
+ * - Knows which component renders each block type (hero, cta, ...)
+ * - Turns the raw { [blockType]: fields } wrappers into typed blocks
+ * - Handles block types without a component: a visible placeholder in
+ *   preview mode (so editors notice), nothing in production - plus a warning
+ *
+ * ADDING A BLOCK TYPE:
+ * 1. Add its fields to BlockTypes in src/api/contentstack.ts
+ * 2. Create the component (props: { block: <fields> })
+ * 3. Add it to blockRegistry below (TypeScript requires an entry per type)
+ *
+ * Components are lazily loaded: a page only downloads the blocks it uses,
+ * and the server preloads exactly those chunks (see lazyWithPreload).
+ */
+
+import type { ComponentType } from "react";
+import {
+  isPreviewMode,
+  type Block,
+  type BlockFields,
+  type BlockType,
+  type BlockTypes,
+  type BlockWrapper,
+} from "../../api/contentstack";
+import { lazyWithPreload } from "../lazyWithPreload";
+
+/**
+ * Component for each block type
+ * - Keyed by block uid; each component receives that block's fields
+ */
+export type BlockRegistry = {
+  [K in BlockType]: ComponentType<{ block: BlockTypes[K] }>;
+};
+
+export const blockRegistry: BlockRegistry = {
+  block: lazyWithPreload("src/components/BlockComponent.tsx", () =>
+    import("../BlockComponent").then((m) => ({ default: m.BlockComponent }))
+  ),
+  hero: lazyWithPreload("src/components/blocks/Hero.tsx", () =>
+    import("./Hero").then((m) => ({ default: m.Hero }))
+  ),
+  cta: lazyWithPreload("src/components/blocks/CallToAction.tsx", () =>
+    import("./CallToAction").then((m) => ({ default: m.CallToAction }))
+  ),
+  card_grid: lazyWithPreload("src/components/blocks/CardGrid.tsx", () =>
+    import("./CardGrid").then((m) => ({ default: m.CardGrid }))
+  ),
+  video: lazyWithPreload("src/components/blocks/Video.tsx", () =>
+    import("./Video").then((m) => ({ default: m.Video }))
+  ),
+  quote: lazyWithPreload("src/components/blocks/Quote.tsx", () =>
+    import("./Quote").then((m) => ({ default: m.Quote }))
+  ),
+};
+
+/**
+ * Replace the component for a block type
+ * - Call at module load (before the first render), on server and client alike,
+ *   or hydration will mismatch
+ *
+ * EXAMPLE:
+ * registerBlock("quote", FancyQuote);
+ */
+export function registerBlock<K extends BlockType>(
+  type: K,
+  component: ComponentType<{ block: BlockTypes[K] }>
+): void {
+  blockRegistry[type] = component as BlockRegistry[K];
+}
+
+function isBlockType(type: string): type is BlockType {
+  return Object.hasOwn(blockRegistry, type);
+}
+
+/** A block whose type has no registered component */
+export interface UnknownBlockType {
+  type: string;
+  uid?: string;
+  known: false;
+}
+
+/**
+ * Turn a block wrapper into a typed block
+ *
+ * @returns The block, or { type, uid, known: false } for block types without a component
+ *
+ * EXAMPLE:
+ * - toBlock({ quote: { quote: "Hi" } }) → { type: "quote", uid: undefined, fields: { quote: "Hi" } }
+ * - toBlock({ carousel: {...} }) → { type: "carousel", uid: "cs123", known: false }
+ */
+export function toBlock(wrapper: BlockWrapper): Block | UnknownBlockType {
+  const type = Object.keys(wrapper).find((key) => key !== "uid") ?? "";
+  const fields = (wrapper as Record<string, BlockFields | undefined>)[type];
+  const uid = fields?._metadata?.uid ?? wrapper.uid;
+
+  if (!isBlockType(type)) return { type, uid, known: false };
+  return { type, uid, fields } as Block;
+}
+
+/** Block types already warned about (one warning per type and process/page) */
+const warnedTypes = new Set<string>();
+
+/**
+ * Placeholder for a block type without a component (preview mode only)
+ */
+function UnknownBlock({ type }: { type: string }) {
+  return (
+    <div
+      className="p-4 border-2 border-dashed border-amber-200 bg-amber-50 rounded-lg text-amber-800"
+      role="note"
+    >
+      Unknown block type{" "}
+      <code className="bg-amber-100 px-2 py-1 rounded font-mono text-sm">{type || "(empty)"}</code>
+      {" "}- add a component for it in src/components/blocks/registry.tsx
+    </div>
+  );
+}
+
+/**
+ * Render one modular block with its registered component
+ *
+ * NOTE: The component may be lazy - render inside a Suspense boundary.
+ */
+export function ModularBlock({ wrapper }: { wrapper: BlockWrapper }) {
+  const block = toBlock(wrapper);
+
+  if ("known" in block) {
+    if (!warnedTypes.has(block.type)) {
+      warnedTypes.add(block.type);
+      console.warn(`[blocks] No component registered for block type "${block.type}"`);
+    }
+    return isPreviewMode ? <UnknownBlock type={block.type} /> : null;
+  }
+
+  // The registry guarantees the component matches block.type
+  const Component = blockRegistry[block.type] as ComponentType<{ block: Block["fields"] }>;
+  return <Component block={block.fields} />;
+}
@@ -0,0 +1,50 @@
+/**
+ * Lazily loaded components with server-side preload hints
+ *
+ * WHAT THIS DOES:
+ * - Wraps React.lazy so a component lives in its own chunk
+ *   (pages that don't render it never download it)
+ * - Records which lazy modules a page actually rendered during SSR
+ * - The server turns that list into <link rel="modulepreload"> tags, so the
+ *   browser fetches the chunk in parallel instead of after hydration starts
+ *
+ * USAGE:
+ * const BlockComponent = lazyWithPreload(
+ *   "src/components/BlockComponent.tsx",           // Vite manifest key (source path)
+ *   () => import("./BlockComponent").then((m) => ({ default: m.BlockComponent }))
+ * );
+ *
+ * IMPORTANT: The id must be the module's path from the project root, exactly
+ * as Vite writes it in .vite/manifest.json - otherwise no hint is emitted.
+ */
+
+import { createContext, lazy, useContext, type ComponentType } from "react";
+
+/**
+ * Collects module ids during a server render
+ * - Provided by entry-server.tsx, absent in the browser (nothing to collect)
+ */
+const PreloadContext = createContext<Set<string> | null>(null);
+
+export const PreloadProvider = PreloadContext.Provider;
+
+/**
+ * Create a lazily loaded component that reports itself for preloading
+ *
+ * @param id - Manifest key of the module (e.g., "src/components/BlockComponent.tsx")
+ * @param load - Dynamic import returning { default: Component }
+ * @returns Component to render inside a Suspense boundary
+ */
+export function lazyWithPreload<P extends object>(
+  id: string,
+  load: () => Promise<{ default: ComponentType<P> }>
+) {
+  const LazyComponent = lazy(load);
+
+  function PreloadedComponent(props: P) {
+    useContext(PreloadContext)?.add(id);
+    return <LazyComponent {...props} />;
+  }
+
+  return PreloadedComponent;
+}
@@ -0,0 +1,255 @@
+/**
+ * <content-fragment> custom element - embeds a fragment from the browser
+ *
+ * WHAT THIS DOES:
+ * - Fetches the fragment's JSON envelope (?format=json) from the fragment server
+ * - Adds its CSS, modulepreload and script tags to the page (once per page,
+ *   however many fragments use them)
+ * - Inserts the fragment markup; the client entry (entry-client.tsx) sees
+ *   the new root and hydrates it like a server-side included fragment
+ * - Re-fetches when the src attribute changes (the old root is unmounted)
+ *
+ * WHY?
+ * - Static or fully cached host pages can't fetch the fragment on the server
+ *
+ * USAGE:
+ * <script type="module" src="https://fragments.example.com/content-fragment.js"></script>
+ *
+ * <content-fragment src="/about">
+ *   <p slot="loading">Loading…</p>
+ *   <p slot="error">This content is unavailable right now.</p>
+ * </content-fragment>
+ *
+ * ATTRIBUTES:
+ * - src: Fragment path, resolved against the fragment server (where this
+ *   script was loaded from), e.g., "/about" or "/fr-fr/about" (without a
+ *   locale prefix, the browser's Accept-Language picks the locale)
+ * - fragment-id: Optional root id (sent as ?fragmentId=)
+ * - isolation: Optional "shadow" for shadow DOM style isolation
+ * - state (set by the element): "loading" | "loaded" | "error"
+ *
+ * EVENTS:
+ * - fragment-load: detail = the envelope
+ * - fragment-error: detail = the error
+ *
+ * NOTE: This script doesn't import React - it stays small and only pulls in
+ * the app (entry-client) once a fragment actually needs it.
+ */
+
+import type { BaseEntry } from "./api/contentstack";
+
+/**
+ * JSON fragment envelope (mirrors FragmentEnvelope in server/types.ts)
+ */
+interface FragmentEnvelope {
+  id: string;
+  url: string;
+  status: number;
+  html: string;
+  initialState: BaseEntry | null;
+  locale: string;
+  alternates: { locale: string; href: string }[];
+  css: { href: string; integrity?: string }[];
+  modulepreload: { href: string; integrity?: string }[];
+  scripts: { type: "module"; src?: string; content?: string; integrity?: string }[];
+}
+
+/**
+ * Shadow root of the element itself
+ * - Only one of the loading slot, error slot and fragment (default slot)
+ *   is shown at a time, based on the state attribute
+ * - The fragment is inserted as a light DOM child, so the client entry's
+ *   observer (which watches the document) finds it
+ */
+const TEMPLATE = `
+  <style>
+    :host { display: block; }
+    slot[name="loading"], slot[name="error"] { display: none; }
+    :host([state="loading"]) slot[name="loading"] { display: contents; }
+    :host([state="error"]) slot[name="error"] { display: contents; }
+    :host([state="loading"]) slot:not([name]), :host([state="error"]) slot:not([name]) { display: none; }
+  </style>
+  <slot name="loading"></slot>
+  <slot name="error"></slot>
+  <slot></slot>
+`;
+
+/**
+ * Assets already added to the page, shared by every <content-fragment>
+ * (keyed by absolute URL, or by content for inline scripts)
+ */
+const injectedAssets = new Set<string>();
+
+/**
+ * Build the envelope URL for a src attribute
+ *
+ * EXAMPLE (script loaded from https://fragments.example.com/assets/...):
+ * - fragmentUrl("/about") → "https://fragments.example.com/about?format=json"
+ */
+function fragmentUrl(src: string, fragmentId: string | null, isolation: string | null): URL {
+  const url = new URL(src, import.meta.url);
+  url.searchParams.set("format", "json");
+  if (fragmentId) url.searchParams.set("fragmentId", fragmentId);
+  if (isolation) url.searchParams.set("isolation", isolation);
+  return url;
+}
+
+/**
+ * Add the envelope's assets to <head>, skipping ones already added
+ *
+ * @param envelope - Fragment envelope
+ * @param base - URL the envelope came from (relative asset URLs resolve against it)
+ */
+function injectAssets({ css, modulepreload, scripts }: FragmentEnvelope, base: URL): void {
+  const addOnce = (key: string, create: () => HTMLElement) => {
+    if (injectedAssets.has(key)) return;
+    injectedAssets.add(key);
+    document.head.appendChild(create());
+  };
+
+  const link = (rel: string, href: string, integrity?: string) => () => {
+    const element = document.createElement("link");
+    element.rel = rel;
+    element.href = href;
+    element.crossOrigin = "anonymous";
+    if (integrity) element.integrity = integrity;
+    return element;
+  };
+
+  css.forEach(({ href, integrity }) => {
+    const url = new URL(href, base).href;
+    addOnce(url, link("stylesheet", url, integrity));
+  });
+
+  modulepreload.forEach(({ href, integrity }) => {
+    const url = new URL(href, base).href;
+    addOnce(url, link("modulepreload", url, integrity));
+  });
+
+  scripts.forEach(({ src, content, integrity }) => {
+    const url = src ? new URL(src, base).href : undefined;
+    addOnce(url ?? `inline:${content}`, () => {
+      const element = document.createElement("script");
+      element.type = "module";
+      // Inserted scripts are async by default - keep the envelope's order
+      // (e.g., the dev preamble must run before the app)
+      element.async = false;
+      if (url) {
+        element.src = url;
+        element.crossOrigin = "anonymous";
+        if (integrity) element.integrity = integrity;
+      } else {
+        element.textContent = content ?? "";
+      }
+      return element;
+    });
+  });
+}
+
+export class ContentFragmentElement extends HTMLElement {
+  static observedAttributes = ["src"];
+
+  /** src of the current (or in-flight) fragment */
+  private currentSrc: string | null = null;
+
+  /** Cancels the in-flight request when src changes or the element is removed */
+  private controller: AbortController | null = null;
+
+  constructor() {
+    super();
+    this.attachShadow({ mode: "open" }).innerHTML = TEMPLATE;
+  }
+
+  connectedCallback(): void {
+    this.load();
+  }
+
+  disconnectedCallback(): void {
+    this.controller?.abort();
+    this.controller = null;
+    this.currentSrc = null;
+  }
+
+  attributeChangedCallback(): void {
+    if (this.isConnected) this.load();
+  }
+
+  /** Fetch the current src again (e.g., a retry button in the error slot) */
+  refresh(): void {
+    this.currentSrc = null;
+    this.load();
+  }
+
+  /**
+   * Fetch and insert the fragment for the current src
+   * - No-op when that src is already loaded or loading
+   */
+  private async load(): Promise<void> {
+    const src = this.getAttribute("src");
+    if (!src || src === this.currentSrc) return;
+
+    this.currentSrc = src;
+    this.controller?.abort();
+    const controller = (this.controller = new AbortController());
+    this.setAttribute("state", "loading");
+
+    try {
+      const url = fragmentUrl(src, this.getAttribute("fragment-id"), this.getAttribute("isolation"));
+      const response = await fetch(url, {
+        signal: controller.signal,
+        headers: { Accept: "application/json" },
+      });
+      const envelope = (await response.json()) as Partial<FragmentEnvelope> & { error?: string };
+
+      // 404 envelopes still carry markup (the CMS "404 page"); errors don't
+      if (typeof envelope.html !== "string") {
+        throw new Error(envelope.error ?? `Fragment request failed with status ${response.status}`);
+      }
+
+      this.render(envelope as FragmentEnvelope, url);
+      this.setAttribute("state", "loaded");
+      this.dispatchEvent(new CustomEvent("fragment-load", { detail: envelope }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      this.currentSrc = null;
+      this.setAttribute("state", "error");
+      this.dispatchEvent(new CustomEvent("fragment-error", { detail: error }));
+    }
+  }
+
+  /**
+   * Replace the current fragment with a new one
+   *
+   * ORDER MATTERS:
+   * 1. Remove the old root (the client entry unmounts it)
+   * 2. Store the initial content under the new root's id
+   *    (inline scripts in innerHTML don't run, so the envelope's
+   *    initialState is stored directly)
+   * 3. Insert the markup (the client entry hydrates it, if already loaded)
+   * 4. Add assets (the client entry hydrates every root when it first runs)
+   */
+  private render(envelope: FragmentEnvelope, base: URL): void {
+    [...this.children].filter((child) => !child.slot).forEach((child) => child.remove());
+
+    window.__FRAGMENT_CONTENT__ = window.__FRAGMENT_CONTENT__ ?? {};
+    window.__FRAGMENT_CONTENT__[envelope.id] = envelope.initialState;
+
+    this.insertAdjacentHTML("beforeend", envelope.html);
+    injectAssets(envelope, base);
+  }
+}
+
+declare global {
+  interface Window {
+    // Same global the client entry reads (see entry-client.tsx)
+    __FRAGMENT_CONTENT__?: Record<string, BaseEntry | null>;
+  }
+
+  interface HTMLElementTagNameMap {
+    "content-fragment": ContentFragmentElement;
+  }
+}
+
+if (!customElements.get("content-fragment")) {
+  customElements.define("content-fragment", ContentFragmentElement);
+}
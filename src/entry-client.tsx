@@ -8,30 +8,74 @@
  *
  * HOW IT WORKS:
  * 1. Server renders HTML to string and includes it in the response
- * 2. Server also embeds initial content in window.__INITIAL_CONTENT__
- * 3. This file runs in the browser and hydrates that HTML
- * 4. React takes over and handles all future interactions
+ * 2. Each fragment has its own root (<div id="..." data-fragment-root>)
+ * 3. Server embeds initial content in window.__FRAGMENT_CONTENT__[rootId]
+ *    (or, with FRAGMENT_STATE_FORMAT=json, in a
+ *    <script type="application/json" data-fragment-state="rootId"> block)
+ * 4. This file runs in the browser and hydrates every fragment root it finds,
+ *    including roots injected into the page after load (e.g., by the
+ *    <content-fragment> element, see content-fragment.ts)
+ * 5. React takes over and handles all future interactions
+ *
+ * NOTE: Attribute and global names mirror server/fragment.ts.
  */
 
-import { hydrateRoot } from "react-dom/client";
-import { BrowserRouter } from "react-router-dom";
+import { hydrateRoot, type Root } from "react-dom/client";
+import { BrowserRouter, MemoryRouter } from "react-router-dom";
 import { App } from "./App";
 import { isPreviewMode } from "./api/contentstack";
-import type { Page } from "./api/contentstack";
+import type { BaseEntry } from "./api/contentstack";
 
 // Extend the global Window interface to include our custom properties
 // This tells TypeScript that these properties exist on window
 declare global {
   interface Window {
-    // Content from server-side rendering (embedded in HTML)
-    __INITIAL_CONTENT__?: Page | null;
-    // Flag to prevent double hydration (safety check)
-    __HYDRATED__?: boolean;
+    // Content from server-side rendering, keyed by fragment root id
+    __FRAGMENT_CONTENT__?: Record<string, BaseEntry | null>;
   }
 }
 
+/** Selector for server-rendered fragment roots */
+const ROOT_SELECTOR = "[data-fragment-root]";
+
 /**
- * Clone content before SDK can intercept it (prevents hydration mismatches)
+ * Shadow isolation markers (see renderFragment in server/fragment.ts)
+ * - The root carries data-fragment-shadow and a <template shadowrootmode>
+ * - React hydrates the [data-fragment-scope] wrapper inside the shadow root
+ */
+const SHADOW_ATTRIBUTE = "data-fragment-shadow";
+const SCOPE_SELECTOR = "[data-fragment-scope]";
+
+/**
+ * Attribute set once a root is hydrated
+ * - Stored on the element (not in module state) so a re-executed module
+ *   (e.g., after HMR) never hydrates the same root twice
+ */
+const HYDRATED_ATTRIBUTE = "data-fragment-hydrated";
+
+/**
+ * React roots by container, so removed fragments can be unmounted
+ */
+const roots = new WeakMap<HTMLElement, Root>();
+
+/**
+ * Find the initial content for one fragment root
+ * - Inline script format: window.__FRAGMENT_CONTENT__[id]
+ * - JSON format: a data block next to the root (works under a strict CSP,
+ *   since nothing inline has to execute)
+ */
+function findInitialContent(id: string): BaseEntry | null {
+  const fromScript = window.__FRAGMENT_CONTENT__?.[id];
+  if (fromScript) return fromScript;
+
+  const block = document.querySelector<HTMLScriptElement>(
+    `script[type="application/json"][data-fragment-state="${CSS.escape(id)}"]`
+  );
+  return block?.textContent ? (JSON.parse(block.textContent) as BaseEntry | null) : null;
+}
+
+/**
+ * Read the initial content for one fragment root
  *
  * WHY CLONE?
  * - Contentstack SDK may modify the original object
@@ -39,41 +83,141 @@ declare global {
  * - Deep clone ensures we have a clean copy that won't be mutated
  * - JSON.parse(JSON.stringify()) is a simple deep clone for plain objects
  */
-const initialContent: Page | null = window.__INITIAL_CONTENT__
-  ? JSON.parse(JSON.stringify(window.__INITIAL_CONTENT__))
-  : null;
+function readInitialContent(id: string): BaseEntry | null {
+  const content = findInitialContent(id);
+  return content ? JSON.parse(JSON.stringify(content)) : null;
+}
+
+/**
+ * Attach a declarative shadow root the parser didn't attach
+ *
+ * WHY?
+ * - Browsers only turn <template shadowrootmode> into a shadow root while
+ *   parsing the page; fragments inserted later with innerHTML (e.g., from
+ *   a JSON envelope) still contain the plain <template>
+ */
+function attachDeclarativeShadowRoot(container: HTMLElement): ShadowRoot | null {
+  const template = container.querySelector<HTMLTemplateElement>(":scope > template[shadowrootmode]");
+  if (!template) return null;
 
-// Find the root element where React will attach
-// This element was created by the server and contains the SSR HTML
-const container = document.getElementById("fragment-root");
+  const shadowRoot = container.attachShadow({ mode: "open" });
+  shadowRoot.appendChild(template.content);
+  template.remove();
+  return shadowRoot;
+}
 
 /**
- * Hydrate only if:
- * - Container exists (server rendered successfully)
- * - Not already hydrated (prevent double hydration errors)
+ * Element React renders into
+ * - Normal fragments: the root itself
+ * - Shadow-isolated fragments: the wrapper inside the shadow root
  */
-if (container && !window.__HYDRATED__) {
-  window.__HYDRATED__ = true;
-
-  // Log preview mode status for debugging
-  if (import.meta.env.DEV) {
-    console.log(
-      `[Contentstack] Preview mode: ${isPreviewMode ? "enabled" : "disabled"}`
-    );
-  }
+function getHydrationTarget(container: HTMLElement): HTMLElement {
+  if (!container.hasAttribute(SHADOW_ATTRIBUTE)) return container;
+
+  const shadowRoot = container.shadowRoot ?? attachDeclarativeShadowRoot(container);
+  return shadowRoot?.querySelector<HTMLElement>(SCOPE_SELECTOR) ?? container;
+}
+
+/**
+ * Hydrate a single fragment root
+ *
+ * @param container - Element rendered by the server with data-fragment-root
+ *
+ * ROUTING:
+ * - The fragment rendered for the host page's own path uses BrowserRouter
+ *   (client-side navigation updates the address bar)
+ * - Any other fragment (e.g., a "/promo" fragment embedded on "/about")
+ *   uses MemoryRouter so it keeps rendering the URL it was fetched for
+ */
+function hydrateFragment(container: HTMLElement): void {
+  if (container.hasAttribute(HYDRATED_ATTRIBUTE)) return;
+  container.setAttribute(HYDRATED_ATTRIBUTE, "");
+
+  const content = readInitialContent(container.id);
+  const url = container.dataset.fragmentUrl || window.location.pathname;
+  // Locale the server rendered with (data-fragment-locale)
+  const locale = container.dataset.fragmentLocale;
+  // Timeline / release preview (data-fragment-preview-timestamp, data-fragment-release)
+  const { fragmentPreviewTimestamp, fragmentRelease } = container.dataset;
+  const timeline =
+    fragmentPreviewTimestamp || fragmentRelease
+      ? { preview_timestamp: fragmentPreviewTimestamp, release_id: fragmentRelease }
+      : undefined;
+  const isPrimary = new URL(url, window.location.href).pathname === window.location.pathname;
 
   // hydrateRoot is React 19's way to hydrate SSR content
-  // It's similar to ReactDOM.hydrateRoot() but with better error handling
-  hydrateRoot(
-    container,
-    // BrowserRouter enables client-side routing (e.g., /about, /contact)
-    // Server uses StaticRouter, client uses BrowserRouter - same API, different context
-    <BrowserRouter>
-      <App content={initialContent} />
-    </BrowserRouter>
+  // Server uses StaticRouter, client uses BrowserRouter/MemoryRouter - same API, different context
+  const root = hydrateRoot(
+    getHydrationTarget(container),
+    isPrimary ? (
+      <BrowserRouter>
+        <App content={content} locale={locale} timeline={timeline} />
+      </BrowserRouter>
+    ) : (
+      <MemoryRouter initialEntries={[url]}>
+        <App content={content} locale={locale} timeline={timeline} />
+      </MemoryRouter>
+    )
   );
+  roots.set(container, root);
 }
 
+/**
+ * Unmount every hydrated fragment root inside (and including) a removed node
+ * - Frees React state and listeners (e.g., <content-fragment> swapping src)
+ * - Skips roots that were only moved (still connected)
+ */
+function unmountFragmentsIn(node: ParentNode): void {
+  const containers = [...node.querySelectorAll<HTMLElement>(ROOT_SELECTOR)];
+  if (node instanceof HTMLElement && node.matches(ROOT_SELECTOR)) containers.push(node);
+
+  containers.forEach((container) => {
+    const root = roots.get(container);
+    if (!root || container.isConnected) return;
+    root.unmount();
+    roots.delete(container);
+    container.removeAttribute(HYDRATED_ATTRIBUTE);
+  });
+}
+
+/**
+ * Hydrate every fragment root inside (and including) a node
+ */
+function hydrateFragmentsIn(node: ParentNode): void {
+  if (node instanceof HTMLElement && node.matches(ROOT_SELECTOR)) {
+    hydrateFragment(node);
+  }
+  node.querySelectorAll<HTMLElement>(ROOT_SELECTOR).forEach(hydrateFragment);
+}
+
+// Log preview mode status for debugging
+if (import.meta.env.DEV) {
+  console.log(
+    `[Contentstack] Preview mode: ${isPreviewMode ? "enabled" : "disabled"}`
+  );
+}
+
+// Hydrate fragments already in the page
+hydrateFragmentsIn(document);
+
+/**
+ * Watch for fragments injected (or removed) after load
+ * - Hosts may fetch and insert more fragments later (e.g., tabs, modals)
+ * - The entry script is a module, so it only executes once per page even
+ *   when several fragments reference it; the observer picks up the rest
+ */
+const observer = new MutationObserver((records) => {
+  for (const record of records) {
+    record.removedNodes.forEach((node) => {
+      if (node instanceof HTMLElement) unmountFragmentsIn(node);
+    });
+    record.addedNodes.forEach((node) => {
+      if (node instanceof HTMLElement) hydrateFragmentsIn(node);
+    });
+  }
+});
+observer.observe(document.documentElement, { childList: true, subtree: true });
+
 /**
  * Enable Hot Module Replacement (HMR) in development
  * - import.meta.hot is a Vite feature
@@ -81,5 +225,6 @@ if (container && !window.__HYDRATED__) {
  * - This makes development much faster
  */
 if (import.meta.hot) {
+  import.meta.hot.dispose(() => observer.disconnect());
   import.meta.hot.accept();
 }
@@ -1,5 +1,5 @@
 /**
- * Server entry point - renders React to HTML string
+ * Server entry point - renders React to HTML (string or stream)
  *
  * WHAT THIS DOES:
  * - Runs on the server (Node.js) to generate HTML before sending to browser
@@ -12,39 +12,161 @@
  * - Works without JavaScript (graceful degradation)
  */
 
-import { renderToString } from "react-dom/server";
+import type { ReactNode } from "react";
+import { renderToPipeableStream } from "react-dom/server";
+import { prerenderToNodeStream } from "react-dom/static";
 import { StaticRouter } from "react-router-dom";
 import { App } from "./App";
-import { fetchPageBySlug, type RenderProps } from "./api/contentstack";
+import { PreloadProvider } from "./components/lazyWithPreload";
+import { fetchNotFoundPage, type RenderProps } from "./api/contentstack";
+import { resolveLocale } from "./api/locales";
+import { fetchAlternates, fetchRouteContent } from "./routes";
 
 /**
- * Renders a React component tree to an HTML string
+ * Render options (chosen per request by the server)
+ * - stream: false (default) → buffered HTML string (renderToString)
+ * - stream: true → streaming render (renderToPipeableStream)
+ * - nonce: CSP nonce for the inline scripts React adds while streaming
+ */
+export interface RenderOptions {
+  stream?: boolean;
+  nonce?: string;
+}
+
+/**
+ * Handle for a streaming render
+ * - modules: Lazily loaded modules rendered so far (complete when the stream ends)
+ * - shellReady: Resolves once everything outside Suspense boundaries is
+ *   rendered (rejects if the shell itself fails) - safe to start piping
+ * - allReady: Resolves once every Suspense boundary has streamed in
+ * - pipe: Writes the HTML into a Node.js writable (ends it when done)
+ * - abort: Stops rendering; pending boundaries fall back to client rendering
+ */
+export interface StreamRenderResult {
+  modules: string[];
+  shellReady: Promise<void>;
+  allReady: Promise<void>;
+  pipe<Writable extends NodeJS.WritableStream>(destination: Writable): Writable;
+  abort(reason?: unknown): void;
+}
+
+/**
+ * Renders a React component tree to HTML
  *
- * @param url - The URL path being rendered (e.g., "/about")
- * @param props - Optional props including pre-fetched content
- * @returns HTML string ready to be sent to the browser
+ * @param url - The URL path being rendered, without locale prefix (e.g., "/about")
+ * @param props - Optional props including pre-fetched (or pending) content,
+ *   the request's locale and the previewed timeline / release
+ * @param options - { stream: true } for a streaming render
+ * @returns { html, modules } (buffered) or a StreamRenderResult (streaming)
+ *   - modules: Manifest keys of lazily loaded components the page rendered,
+ *     so the server can emit preload hints for their chunks
  *
- * HOW IT WORKS:
+ * HOW IT WORKS (buffered):
  * 1. Server receives request for a URL (e.g., GET /about)
  * 2. Content is fetched from Contentstack (already done before calling this)
- * 3. This function renders the React tree to HTML string
+ * 3. This function renders the React tree to HTML string, waiting for
+ *    lazily loaded components (so their markup is included)
  * 4. HTML is sent to browser with initial content embedded
  * 5. Browser hydrates the HTML (see entry-client.tsx)
+ *
+ * HOW IT WORKS (streaming):
+ * 1. Server starts fetching content and passes the promise (contentPromise)
+ * 2. The shell (wrapper + loading placeholder) is ready immediately
+ * 3. The page and its blocks stream in as their Suspense boundaries resolve
  */
-export async function render(url: string, props?: RenderProps) {
-  // renderToString converts React components to HTML string
-  // This is synchronous - React renders the entire tree at once
-  const html = renderToString(
-    // StaticRouter is for SSR - it doesn't navigate, just provides routing context
-    // The "location" prop tells React Router what route to render
-    // Client-side uses BrowserRouter which handles actual navigation
-    <StaticRouter location={url}>
-      <App content={props?.content} />
-    </StaticRouter>
+export async function render(url: string, props?: RenderProps, options?: { stream?: false }): Promise<{ html: string; modules: string[] }>;
+export async function render(url: string, props: RenderProps, options: { stream: true; nonce?: string }): Promise<StreamRenderResult>;
+export async function render(
+  url: string,
+  props?: RenderProps,
+  options?: RenderOptions
+): Promise<{ html: string; modules: string[] } | StreamRenderResult> {
+  // Lazily loaded components add their module id here while rendering
+  const modules = new Set<string>();
+
+  // StaticRouter is for SSR - it doesn't navigate, just provides routing context
+  // The "location" prop tells React Router what route to render
+  // Client-side uses BrowserRouter which handles actual navigation
+  const tree = (
+    <PreloadProvider value={modules}>
+      <StaticRouter location={url}>
+        <App
+          content={props?.content}
+          contentPromise={props?.contentPromise}
+          locale={props?.locale}
+          timeline={props?.timeline}
+        />
+      </StaticRouter>
+    </PreloadProvider>
   );
-  return { html };
+
+  if (options?.stream) return renderStream(tree, modules, options.nonce);
+
+  // prerenderToNodeStream renders the whole tree, waiting for every
+  // Suspense boundary (e.g., lazy components) before producing the HTML
+  // (renderToString would send their fallbacks instead)
+  // A component that throws inside a boundary doesn't reject it: React
+  // reports it to onError and renders the fallback (the page skeleton) -
+  // the first error is rethrown below, so the server answers 500 instead
+  // of caching the skeleton
+  let renderError: { error: unknown } | undefined;
+  const { prelude } = await prerenderToNodeStream(tree, {
+    onError(error) {
+      console.error("Render error:", error);
+      renderError ??= { error };
+    },
+  });
+
+  let html = "";
+  for await (const chunk of prelude) html += chunk;
+  if (renderError) throw renderError.error;
+
+  return { html, modules: [...modules] };
+}
+
+/**
+ * Start a streaming render and expose its lifecycle as promises
+ */
+function renderStream(tree: ReactNode, collected: Set<string>, nonce?: string): StreamRenderResult {
+  let resolveShell!: () => void;
+  let rejectShell!: (error: unknown) => void;
+  let resolveAll!: () => void;
+
+  const shellReady = new Promise<void>((resolve, reject) => {
+    resolveShell = resolve;
+    rejectShell = reject;
+  });
+  const allReady = new Promise<void>((resolve) => (resolveAll = resolve));
+
+  const { pipe, abort } = renderToPipeableStream(tree, {
+    // Stamped on the inline scripts that swap streamed boundaries into place
+    nonce,
+    onShellReady: resolveShell,
+    onShellError: rejectShell,
+    onAllReady: resolveAll,
+    // Errors inside Suspense boundaries after the shell was sent:
+    // React streams the fallback and the client renders that part instead
+    onError(error) {
+      console.error("Streaming render error:", error);
+    },
+  });
+
+  return {
+    // Live view: read it once the stream has ended to get every module
+    get modules() {
+      return [...collected];
+    },
+    shellReady,
+    allReady,
+    pipe,
+    abort,
+  };
 }
 
-// Export fetchPageBySlug so the server can call it before rendering
+// Export fetchRouteContent so the server can call it before rendering
 // This allows us to fetch content on the server and pass it to the component
-export { fetchPageBySlug };
+// (the same resolver the client uses on navigation, see routes.tsx)
+// fetchNotFoundPage provides the optional CMS-managed content for 404 responses
+// resolveLocale picks the request's locale (URL prefix, headers), fetchAlternates
+// its hreflang links (see src/api/locales.ts)
+export { fetchRouteContent, fetchNotFoundPage, resolveLocale, fetchAlternates };
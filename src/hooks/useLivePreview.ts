@@ -6,6 +6,7 @@
  * - Uses SSR content on initial render (no extra fetch needed)
  * - Fetches new content when user navigates to different routes (ALWAYS runs)
  * - Auto-updates content when it changes in Contentstack (ONLY if preview mode enabled)
+ * - Reports whether a fetch is in flight and whether the last one failed
  *
  * IMPORTANT: This hook is ALWAYS called, regardless of CONTENTSTACK_PREVIEW setting
  * - Content state management and route change handling are always needed
@@ -19,116 +20,186 @@
  *
  * HOW IT WORKS:
  * 1. Initial render: Uses content passed from server (SSR)
- * 2. Route change: Fetches new content for the new URL (always)
- * 3. Live preview: Listens for CMS updates and refreshes content (only if enabled)
+ * 2. Route change: Fetches new content for the new URL (always, right away)
+ *    from the fragment server (GET /api/content - the browser never
+ *    talks to Contentstack, see src/api/contentApi.ts)
+ * 3. Live preview: Listens for CMS updates and refreshes content (only if
+ *    enabled), once a burst of edits has settled
+ *
+ * ORDERING (latest wins):
+ * - Every fetch supersedes the one before it: navigating while an edit is
+ *   being fetched (or editing quickly) never shows an older response over
+ *   a newer one
+ * - Fetches always read the current route, so a live preview update after
+ *   navigation refreshes the page being viewed, not the first one
  */
 
-import { useEffect, useState, useRef } from "react";
-import { useLocation } from "react-router-dom";
+import { useCallback, useEffect, useRef, useState } from "react";
 import {
-  fetchPageBySlug,
+  getLivePreviewQuery,
   initLivePreview,
   onEntryChange,
+  unsubscribeOnEntryChange,
   isPreviewMode,
-  type Page,
+  type BaseEntry,
 } from "../api/contentstack";
+import { fetchContentFromServer } from "../api/contentApi";
+
+/**
+ * Wait this long after the last CMS change before refetching
+ * (typing in a field sends a change per keystroke)
+ */
+const LIVE_EDIT_DEBOUNCE_MS = 150;
+
+/**
+ * Content state returned by useLivePreview
+ * - page: Current page content (null: not found)
+ * - loading: A fetch (navigation or live preview update) is in flight
+ * - error: Why the last fetch failed (null after a successful fetch)
+ *
+ * ON ERRORS:
+ * - Navigation: page becomes null (the URL's content is unknown)
+ * - Live preview update: the last good content stays on screen
+ */
+export interface LivePreviewState {
+  page: BaseEntry | null;
+  loading: boolean;
+  error: unknown;
+}
 
 /**
  * Hook to manage page content with live preview
  *
  * @param initialContent - Content from server-side rendering (first render only)
- * @returns Current page content (updates on route change or live preview)
+ * @param location - Current content path (without locale prefix) and locale
+ *   (see resolveLocale in src/api/locales.ts)
+ * @returns Current page content, loading and error state (see LivePreviewState)
  *
- * STATE MANAGEMENT:
- * - page: Current page content (starts with initialContent)
- * - initialPath: Tracks the first pathname to skip initial fetch
- * - livePreviewReady: Flag to prevent live preview from firing too early
+ * REFS:
+ * - route: The current path and locale (read when a fetch starts)
+ * - fetchedKey: Locale + path the content is for (skips the initial fetch)
+ * - request: Controller of the fetch in flight (aborted when superseded or unmounted)
+ * - pendingEdit: Debounce timer of a live preview update
  */
-export function useLivePreview(initialContent?: Page | null) {
-  // Get current URL path (e.g., "/about")
-  const { pathname } = useLocation();
+export function useLivePreview(
+  initialContent: BaseEntry | null | undefined,
+  { pathname, locale }: { pathname: string; locale: string }
+): LivePreviewState {
+  // Switching locale (e.g., "/about" → "/fr-fr/about") refetches like a route change
+  const routeKey = `${locale}:${pathname}`;
 
   // State: current page content
   // Starts with initialContent from SSR, updates on navigation/preview
-  const [page, setPage] = useState<Page | null>(initialContent ?? null);
+  const [state, setState] = useState<LivePreviewState>({
+    page: initialContent ?? null,
+    loading: false,
+    error: null,
+  });
 
-  // Track the initial pathname to avoid fetching on first render
-  // (we already have SSR content, no need to fetch again)
-  const initialPath = useRef(pathname);
-
-  // Flag to prevent live preview from firing before it's ready
-  // Live preview needs a moment to initialize before it can update content
-  const livePreviewReady = useRef(false);
+  const route = useRef({ pathname, locale });
+  const fetchedKey = useRef(routeKey);
+  const request = useRef<AbortController | null>(null);
+  const pendingEdit = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
 
   /**
-   * Fetch content for the current page
-   * 
+   * Fetch content for the current route
+   *
    * This function is called:
-   * - When user navigates to a new route
-   * - When content changes in Contentstack (live preview)
+   * - When user navigates to a new route ("navigation")
+   * - When content changes in Contentstack ("edit", debounced)
+   *
+   * A superseded fetch is aborted; its result is dropped even if it
+   * already arrived. In a preview session the server fetches the draft
+   * (see getLivePreviewQuery).
    */
-  const fetchContent = async () => {
-    const data = await fetchPageBySlug(pathname || "/");
-    setPage(data);
-  };
+  const fetchContent = useCallback(async (reason: "navigation" | "edit") => {
+    clearTimeout(pendingEdit.current);
+    request.current?.abort();
+    const controller = new AbortController();
+    request.current = controller;
+
+    const { pathname, locale } = route.current;
+    setState((current) => ({ ...current, loading: true }));
+
+    try {
+      // Same resolver and cache as server rendering (see server/api.ts)
+      // Missing entry → CMS-managed 404 page (if configured) → built-in "not found"
+      const { content } = await fetchContentFromServer(pathname || "/", {
+        locale,
+        preview: getLivePreviewQuery(),
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      setState({ page: content, loading: false, error: null });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      // Server or Contentstack unavailable
+      console.error(error);
+      setState((current) => ({
+        page: reason === "navigation" ? null : current.page,
+        loading: false,
+        error,
+      }));
+    }
+  }, []);
 
   /**
-   * Initialize live preview (runs once after component mounts)
-   * 
+   * Subscribe to live preview updates (once, on mount)
+   *
    * NOTE: This effect always runs, but returns early if preview mode is disabled
    * - No performance impact when preview mode is off (early return)
-   * - Only sets up WebSocket connection and callbacks when preview mode is on
-   * 
-   * WHY DELAYS?
-   * - setTimeout(200ms): Gives React time to finish rendering
-   * - setTimeout(100ms): Gives live preview time to initialize
-   * - These delays prevent race conditions and ensure everything is ready
-   * 
+   * - Only sets up the SDK connection and callbacks when preview mode is on
+   *
+   * HOW IT WORKS:
+   * - initLivePreview only initializes the SDK once (every fragment root calls it)
+   * - skipInitialRender: the SSR content is current, no refetch on subscribe
+   * - Each change restarts the debounce timer; one fetch runs once edits pause
+   *   (SSR preview: the SDK reloads the iframe on edits, the server renders the draft)
+   *
    * CLEANUP:
-   * - Returns cleanup function to clear timers if component unmounts
+   * - Unsubscribes the callback, drops a pending update and the fetch in flight
    */
   useEffect(() => {
     // Early return if preview mode is disabled - no setup needed
-    // This is a no-op when preview mode is off (no performance cost)
     if (!isPreviewMode) return;
 
-    const timer = setTimeout(() => {
-      // Initialize the live preview connection
-      initLivePreview();
-
-      // Mark as ready after a short delay
-      setTimeout(() => (livePreviewReady.current = true), 100);
+    initLivePreview();
+    const callbackUid = onEntryChange(
+      () => {
+        clearTimeout(pendingEdit.current);
+        pendingEdit.current = setTimeout(() => fetchContent("edit"), LIVE_EDIT_DEBOUNCE_MS);
+      },
+      { skipInitialRender: true }
+    );
 
-      // Register callback: when content changes in CMS, fetch new content
-      // Only fetch if live preview is ready (prevents premature updates)
-      onEntryChange(() => livePreviewReady.current && fetchContent());
-    }, 200);
-
-    // Cleanup: clear timer if component unmounts before timer fires
-    return () => clearTimeout(timer);
-  }, []); // Empty deps = run once on mount
+    return () => {
+      unsubscribeOnEntryChange(callbackUid);
+      clearTimeout(pendingEdit.current);
+    };
+  }, [fetchContent]);
 
   /**
    * Fetch content on route change
-   * 
+   *
    * WHY SKIP INITIAL RENDER?
    * - We already have content from SSR (passed as initialContent)
    * - No need to fetch again on first render
-   * - Only fetch when pathname actually changes (user navigates)
-   * 
-   * HOW IT WORKS:
-   * - Compares current pathname to initial pathname
-   * - If different, user navigated → fetch new content
-   * - Updates initialPath ref to track the new path
+   * - Only fetch when pathname or locale actually changes (user navigates)
    */
   useEffect(() => {
+    route.current = { pathname, locale };
+
     // Skip if this is the initial render (we have SSR content)
-    if (pathname === initialPath.current) return;
+    if (routeKey === fetchedKey.current) return;
 
     // User navigated to a new route → fetch content for that route
-    initialPath.current = pathname;
-    fetchContent();
-  }, [pathname]); // Run whenever pathname changes
+    // (replaces a pending live preview update, which would fetch the same)
+    fetchedKey.current = routeKey;
+    fetchContent("navigation");
+  }, [routeKey, pathname, locale, fetchContent]);
+
+  // Unmount: drop the result of a fetch still in flight
+  useEffect(() => () => request.current?.abort(), []);
 
-  return page;
+  return state;
 }
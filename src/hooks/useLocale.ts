@@ -0,0 +1,25 @@
+/**
+ * Locale of the content being rendered
+ *
+ * WHAT THIS IS FOR:
+ * - Formatting dates, prices and numbers for the reader (Intl)
+ * - Building links that stay in the same locale (localizePath)
+ *
+ * Provided by App for the current URL (prefix, or the locale the fragment
+ * was rendered with - see resolveLocale in src/api/locales.ts).
+ *
+ * USAGE:
+ * const locale = useLocale(); // "fr-fr"
+ * new Intl.DateTimeFormat(locale).format(date);
+ */
+
+import { createContext, useContext } from "react";
+import { defaultLocale } from "../api/locales";
+
+const LocaleContext = createContext<string>(defaultLocale);
+
+export const LocaleProvider = LocaleContext.Provider;
+
+export function useLocale(): string {
+  return useContext(LocaleContext);
+}
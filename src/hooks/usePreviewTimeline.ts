@@ -0,0 +1,25 @@
+/**
+ * Timeline / release being previewed
+ *
+ * WHAT THIS IS FOR:
+ * - Telling editors the page shows content as it will be at a future
+ *   publish date or in a release, not as it is now (see PreviewBanner)
+ *
+ * Provided by App: set by the server for preview requests with
+ * preview_timestamp or release_id (see server/preview.ts), and read by the
+ * client from the fragment root. Undefined everywhere else.
+ *
+ * USAGE:
+ * const timeline = usePreviewTimeline(); // { preview_timestamp: "2026-12-01T09:00:00.000Z" }
+ */
+
+import { createContext, useContext } from "react";
+import type { PreviewTimeline } from "../api/contentstack";
+
+const PreviewTimelineContext = createContext<PreviewTimeline | undefined>(undefined);
+
+export const PreviewTimelineProvider = PreviewTimelineContext.Provider;
+
+export function usePreviewTimeline(): PreviewTimeline | undefined {
+  return useContext(PreviewTimelineContext);
+}
@@ -0,0 +1,89 @@
+/**
+ * Article component - renders an "article" entry (routed under /blog)
+ *
+ * STRUCTURE:
+ * - Title, publish date and author
+ * - Summary and image (optional)
+ * - Body (rich text, HTML or JSON RTE)
+ * - Related articles
+ *
+ * NOTE: author and related_articles are references, resolved with the
+ * article (see contentTypeReferences); the author's name carries the
+ * author entry's own editable tag.
+ */
+
+import type { Article as ArticleType } from "../api/contentstack";
+import { RelatedEntries } from "../components/RelatedEntries";
+import { RichText } from "../components/RichText";
+import { useLocale } from "../hooks/useLocale";
+
+interface ArticleProps {
+  content: ArticleType;
+}
+
+/**
+ * Format an ISO date for display (e.g., "2024-05-01", "en-us" → "May 1, 2024")
+ * - The content's locale and a fixed time zone, so server and client
+ *   render the same text
+ */
+function formatDate(date: string, locale: string): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: "long", timeZone: "UTC" }).format(new Date(date));
+}
+
+export function Article({ content }: ArticleProps) {
+  const locale = useLocale();
+  // Unresolved references have no title
+  const author = content.author?.find((entry) => entry.title);
+
+  return (
+    <main className="max-w-3xl mx-auto px-4 py-8">
+      <article>
+        <header className="mb-6">
+          <h1 {...content.$?.title} className="text-4xl font-bold mb-2">
+            {content.title}
+          </h1>
+          {(content.date || author) && (
+            <p className="text-sm text-gray-600">
+              {content.date && (
+                <time {...content.$?.date} dateTime={content.date}>
+                  {formatDate(content.date, locale)}
+                </time>
+              )}
+              {content.date && author && " · "}
+              {author && (
+                <span {...content.$?.author}>
+                  <span {...author.$?.title}>{author.title}</span>
+                </span>
+              )}
+            </p>
+          )}
+        </header>
+
+        {content.summary && (
+          <p {...content.$?.summary} className="text-lg text-gray-600 mb-6">
+            {content.summary}
+          </p>
+        )}
+
+        {content.image?.url && (
+          <figure className="mb-8 m-0">
+            <img
+              {...content.$?.image}
+              src={content.image.url}
+              alt={content.image.title || content.title}
+              className="w-full h-auto rounded-lg"
+            />
+          </figure>
+        )}
+
+        <RichText value={content.body} field={content.$?.body} className="prose prose-lg max-w-none" />
+      </article>
+
+      <RelatedEntries
+        title="Related articles"
+        entries={content.related_articles}
+        field={content.$?.related_articles}
+      />
+    </main>
+  );
+}
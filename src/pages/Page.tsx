@@ -5,17 +5,24 @@
  * - Renders the main page content from Contentstack
  * - Handles "not found" state when content doesn't exist
  * - Renders title, description, hero image, rich text, and blocks
+ *   (each block type has its own component, see components/blocks/registry.tsx)
  * - Supports live preview editing (via editable attributes)
+ * - Shows a banner in Timeline / release previews (see PreviewBanner)
  *
  * ARCHITECTURE:
  * - Receives content prop from useLivePreview hook
  * - Content comes from SSR (first render) or client fetch (navigation)
- * - All page URLs route here (slug-based routing)
+ * - Renders "page" entries - the catch-all route (see routes.tsx) - and
+ *   the "not found" state for every content type
  */
 
+import { Suspense } from "react";
 import { useLocation } from "react-router-dom";
 import type { Page as PageType } from "../api/contentstack";
-import { BlockComponent } from "../components/BlockComponent";
+import { ModularBlock, toBlock } from "../components/blocks/registry";
+import { PreviewBanner } from "../components/PreviewBanner";
+import { RelatedEntries } from "../components/RelatedEntries";
+import { RichText } from "../components/RichText";
 
 interface PageProps {
   content?: PageType | null;
@@ -36,6 +43,8 @@ export function Page({ content }: PageProps) {
   if (!content) {
     return (
       <main className="max-w-4xl mx-auto px-4 py-8">
+        {/* The page may only exist from the previewed date / release on */}
+        <PreviewBanner />
         <section
           className="bg-amber-50 border border-amber-200 rounded-lg p-6"
           role="alert"
@@ -61,11 +70,15 @@ export function Page({ content }: PageProps) {
    * - Title (required)
    * - Description (optional)
    * - Hero image (optional)
-   * - Rich text content (optional HTML)
+   * - Rich text content (optional, HTML or JSON RTE)
    * - Content blocks (modular blocks, optional)
+   * - Related pages (reference field, optional)
    */
   return (
     <main className="max-w-4xl mx-auto px-4 py-8">
+      {/* Timeline / release preview: which point in time this is */}
+      <PreviewBanner />
+
       {/* Page title - always present */}
       {/* Spread editable attributes for live preview */}
       <h1 {...content.$?.title} className="text-4xl font-bold mb-4">
@@ -91,28 +104,27 @@ export function Page({ content }: PageProps) {
         </figure>
       )}
 
-      {/* Rich text - HTML content from Contentstack */}
-      {/* Uses dangerouslySetInnerHTML because content is HTML */}
-      {content.rich_text && (
-        <div
-          {...content.$?.rich_text}
-          className="prose prose-lg max-w-none mb-8"
-          dangerouslySetInnerHTML={{ __html: content.rich_text }}
-        />
-      )}
+      {/* Rich text - HTML or JSON RTE content from Contentstack */}
+      <RichText value={content.rich_text} field={content.$?.rich_text} className="prose prose-lg max-w-none mb-8" />
 
       {/* Content blocks - modular blocks (repeatable sections) */}
-      {/* Each block is wrapped in a BlockWrapper, extract the block */}
+      {/* Each wrapper holds one block under its type key ({ hero: {...} }) */}
+      {/* Block components are code-split: pages only load the blocks they use, */}
+      {/* and the server preloads those chunks */}
+      {/* Each block has its own Suspense boundary, so with streaming SSR */}
+      {/* a block that suspends streams in later without holding up the rest */}
       {content.blocks?.length ? (
         <section className="space-y-8">
-          {content.blocks.map((wrapper) => (
-            <BlockComponent
-              key={wrapper.block._metadata?.uid || wrapper.uid}
-              block={wrapper.block}
-            />
+          {content.blocks.map((wrapper, index) => (
+            <Suspense key={toBlock(wrapper).uid ?? index} fallback={null}>
+              <ModularBlock wrapper={wrapper} />
+            </Suspense>
           ))}
         </section>
       ) : null}
+
+      {/* Related pages - referenced entries (see contentTypeReferences) */}
+      <RelatedEntries title="Related pages" entries={content.related_pages} field={content.$?.related_pages} />
     </main>
   );
 }
@@ -0,0 +1,66 @@
+/**
+ * Product component - renders a "product" entry (routed under /products)
+ *
+ * LAYOUT:
+ * - Image next to the details on larger screens, stacked on mobile
+ */
+
+import type { Product as ProductType } from "../api/contentstack";
+import { RelatedEntries } from "../components/RelatedEntries";
+import { useLocale } from "../hooks/useLocale";
+
+interface ProductProps {
+  content: ProductType;
+}
+
+/**
+ * Format a price (e.g., 19.5, "EUR", "en-us" → "€19.50"; "fr-fr" → "19,50 €")
+ * - The content's locale, so server and client render the same text
+ */
+function formatPrice(price: number, locale: string, currency = "USD"): string {
+  return new Intl.NumberFormat(locale, { style: "currency", currency }).format(price);
+}
+
+export function Product({ content }: ProductProps) {
+  const locale = useLocale();
+  return (
+    <main className="max-w-4xl mx-auto px-4 py-8">
+      <div className="grid gap-8 md:grid-cols-2">
+        {content.image?.url && (
+          <img
+            {...content.$?.image}
+            src={content.image.url}
+            alt={content.image.title || content.title}
+            className="w-full h-auto rounded-lg"
+          />
+        )}
+        <div>
+          <h1 {...content.$?.title} className="text-4xl font-bold mb-2">
+            {content.title}
+          </h1>
+          {content.sku && (
+            <p {...content.$?.sku} className="text-sm text-gray-500 font-mono mb-4">
+              {content.sku}
+            </p>
+          )}
+          {content.price !== undefined && (
+            <p {...content.$?.price} className="text-2xl font-semibold mb-4">
+              {formatPrice(content.price, locale, content.currency)}
+            </p>
+          )}
+          {content.description && (
+            <p {...content.$?.description} className="text-gray-600">
+              {content.description}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <RelatedEntries
+        title="Related products"
+        entries={content.related_products}
+        field={content.$?.related_products}
+      />
+    </main>
+  );
+}
@@ -0,0 +1,226 @@
+/**
+ * Content routes - which content type (and page component) serves a URL
+ *
+ * WHAT THIS DOES:
+ * - Maps URL patterns to Contentstack content types
+ * - Describes how each content type is queried (its filter - reference
+ *   fields are resolved per content type, see contentTypeReferences)
+ * - Names the page component that renders each content type
+ * - Resolves a URL to its entry - used by the server (SSR) and by
+ *   useLivePreview (client navigation, live preview), so both always agree
+ * - Finds the same entry's URL in every other locale (hreflang alternates)
+ *
+ * MATCHING:
+ * - Routes are tried in order, the first matching path wins
+ *   (keep the "page" catch-all last)
+ * - Paths use React Router syntax ("/blog/:slug", "/*")
+ * - The matched route alone decides the query: a URL that matches
+ *   "/blog/:slug" but has no article is a 404, even if a page has that url
+ * - Paths here never include the locale prefix ("/fr-fr/blog/..." is
+ *   matched as "/blog/..." - see splitLocalePath in src/api/locales.ts)
+ *
+ * ADDING A CONTENT TYPE:
+ * 1. Add its interface to src/api/contentstack.ts (extends BaseEntry)
+ * 2. Create its page component (props: { content: <interface> })
+ * 3. Add a route below, before the "page" catch-all
+ */
+
+import type { ComponentType } from "react";
+import { matchPath } from "react-router-dom";
+import {
+  fetchEntries,
+  fetchLocalizedEntry,
+  type Article,
+  type BaseEntry,
+  type ContentContext,
+  type Page as PageEntry,
+  type Product,
+} from "./api/contentstack";
+import { defaultLocale, localizePath, locales, type AlternateLink } from "./api/locales";
+import { lazyWithPreload } from "./components/lazyWithPreload";
+import { Page } from "./pages/Page";
+
+/**
+ * A URL matched against a route's path
+ * - pathname: The full URL path (e.g., "/blog/hello-world")
+ * - params: Named segments (e.g., { slug: "hello-world" })
+ */
+export interface RouteMatch {
+  pathname: string;
+  params: Record<string, string | undefined>;
+}
+
+/**
+ * One entry in the routing table
+ * - contentType: Content type uid queried for matching URLs
+ * - path: URL pattern (React Router syntax)
+ * - query: Field values the entry must have (default: { url: pathname })
+ * - component: Page component rendering the entry
+ */
+export interface ContentRoute<T extends BaseEntry = BaseEntry> {
+  contentType: string;
+  path: string;
+  query?: (match: RouteMatch) => Record<string, string>;
+  component: ComponentType<{ content: T }>;
+}
+
+/**
+ * Whether an entry is of a content type (narrows it to that type's interface)
+ */
+function isEntryOf<T extends BaseEntry>(content: BaseEntry, contentType: string): content is T {
+  return content._content_type_uid === contentType;
+}
+
+/**
+ * Type-check a route against its entry type, then widen it for the table
+ * - The table's component takes any entry: it checks the entry's content
+ *   type before handing it to the page component, which therefore only
+ *   ever receives entries of its own type (others render nothing - see
+ *   getContentRoute, which picks routes by content type)
+ */
+function defineRoute<T extends BaseEntry>({ component: Component, ...route }: ContentRoute<T>): ContentRoute {
+  function RouteComponent({ content }: { content: BaseEntry }) {
+    return isEntryOf<T>(content, route.contentType) ? <Component content={content} /> : null;
+  }
+  return { ...route, component: RouteComponent };
+}
+
+/**
+ * The routing table
+ *
+ * EXAMPLES:
+ * | URL                   | Content type | Query                         |
+ * | --------------------- | ------------ | ----------------------------- |
+ * | /blog/hello-world     | article      | url = "/blog/hello-world"     |
+ * | /products/SKU-123     | product      | sku = "SKU-123"               |
+ * | /about                | page         | url = "/about"                |
+ */
+export const routes: ContentRoute[] = [
+  defineRoute<Article>({
+    contentType: "article",
+    path: "/blog/:slug",
+    component: lazyWithPreload("src/pages/Article.tsx", () =>
+      import("./pages/Article").then((m) => ({ default: m.Article }))
+    ),
+  }),
+  defineRoute<Product>({
+    contentType: "product",
+    path: "/products/:sku",
+    query: ({ params }) => ({ sku: params.sku ?? "" }),
+    component: lazyWithPreload("src/pages/Product.tsx", () =>
+      import("./pages/Product").then((m) => ({ default: m.Product }))
+    ),
+  }),
+  // Catch-all: every other URL is a page
+  defineRoute<PageEntry>({
+    contentType: "page",
+    path: "/*",
+    component: Page,
+  }),
+];
+
+/**
+ * Find the route for a URL path
+ *
+ * @returns The first route whose path matches, with the match, or null
+ *
+ * EXAMPLE:
+ * matchRoute("/blog/hello") → { route: <article route>, match: { pathname: "/blog/hello", params: { slug: "hello" } } }
+ */
+export function matchRoute(pathname: string): { route: ContentRoute; match: RouteMatch } | null {
+  for (const route of routes) {
+    const match = matchPath(route.path, pathname);
+    if (match) return { route, match: { pathname, params: match.params } };
+  }
+  return null;
+}
+
+/**
+ * Fetch the entry a URL path routes to
+ *
+ * WHAT THIS DOES:
+ * 1. Finds the route for the path (matchRoute)
+ * 2. Queries that route's content type with its filter (references are
+ *    resolved as configured for the content type), in the locale or the
+ *    first locale of its fallback chain that has the entry
+ * 3. Returns the entry (tagged with _content_type_uid) or null
+ *
+ * @param pathname - URL path without locale prefix (e.g., "/blog/hello-world")
+ * @param context - Locale (default: defaultLocale) and live preview parameters
+ * @throws ContentUnavailableError when Contentstack can't be reached or errors
+ */
+export async function fetchRouteContent(
+  pathname: string,
+  { locale = defaultLocale, preview }: ContentContext = {}
+): Promise<BaseEntry | null> {
+  const resolved = matchRoute(pathname);
+  if (!resolved) return null;
+
+  const { route, match } = resolved;
+  return fetchLocalizedEntry(route.contentType, locale, {
+    where: route.query?.(match) ?? { url: pathname },
+    preview,
+  });
+}
+
+/**
+ * Find an entry's URL in every locale it's published in (hreflang)
+ *
+ * WHAT THIS DOES:
+ * - Looks the entry up by uid in each supported locale (no fallback, so a
+ *   locale without its own version gets no alternate)
+ * - Routes queried by url use the localized entry's url; other routes
+ *   (e.g., products by sku) keep the same path
+ * - Adds the locale prefix (see localizePath)
+ *
+ * @param content - Entry rendered for the request
+ * @param pathname - URL path without locale prefix
+ * @returns One link per locale, the requested one included (empty with a
+ *   single configured locale)
+ * @throws ContentUnavailableError when Contentstack can't be reached or errors
+ *
+ * EXAMPLE (locales: en-us, fr-fr):
+ * fetchAlternates(aboutPage, "/about")
+ * → [{ locale: "en-us", href: "/about" }, { locale: "fr-fr", href: "/fr-fr/a-propos" }]
+ */
+export async function fetchAlternates(content: BaseEntry, pathname: string): Promise<AlternateLink[]> {
+  const contentType = content._content_type_uid;
+  if (locales.length < 2 || !contentType) return [];
+
+  const route = getContentRoute(content, pathname);
+  const localized = await Promise.all(
+    locales.map(async (locale) => {
+      const [entry] = await fetchEntries(contentType, {
+        where: { uid: content.uid },
+        includes: [],
+        locale,
+        limit: 1,
+      });
+      if (!entry) return null;
+      const path = (!route?.query && entry.url) || pathname;
+      return { locale, href: localizePath(path, locale) };
+    })
+  );
+  return localized.filter((link): link is AlternateLink => link !== null);
+}
+
+/**
+ * Pick the route that renders an entry
+ *
+ * WHY BY CONTENT TYPE (not just the URL)?
+ * - The entry may come from another content type than the URL routes to:
+ *   a missing article renders the CMS "404 page", which is a page entry
+ * - Entries without _content_type_uid (or of an unrouted type) fall back
+ *   to the route for the URL
+ *
+ * @param content - Entry to render
+ * @param pathname - Current URL path
+ */
+export function getContentRoute(content: BaseEntry, pathname: string): ContentRoute | undefined {
+  const candidates = routes.filter((route) => route.contentType === content._content_type_uid);
+  return (
+    candidates.find((route) => matchPath(route.path, pathname)) ??
+    candidates[0] ??
+    matchRoute(pathname)?.route
+  );
+}
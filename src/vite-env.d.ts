@@ -1,14 +1,22 @@
 /// <reference types="vite/client" />
 
-interface ImportMetaEnv {
-  readonly CONTENTSTACK_API_KEY: string;
-  readonly CONTENTSTACK_DELIVERY_TOKEN: string;
-  readonly CONTENTSTACK_PREVIEW_TOKEN: string;
-  readonly CONTENTSTACK_ENVIRONMENT: string;
-  readonly CONTENTSTACK_REGION: string;
-  readonly CONTENTSTACK_PREVIEW: string;
-}
+/**
+ * Public settings compiled into the client, validated at build time
+ * (plugins/publicConfig.ts) - tokens are never part of it; the server
+ * reads them from process.env (see src/api/config.ts)
+ */
+declare const __PUBLIC_CONFIG__: import("../server/config").PublicConfig;
+
+/**
+ * xss's CommonJS entry, imported by path in src/api/sanitize.ts
+ * - Its default export (module.exports) is the filter function with every
+ *   helper as a property - exactly what Node hands to an ESM import; the
+ *   package typings only declare the helpers as named exports, which Node
+ *   can't resolve for this module
+ */
+declare module "xss/lib/index.js" {
+  import type * as XSS from "xss";
 
-interface ImportMeta {
-  readonly env: ImportMetaEnv;
+  const xss: typeof XSS.default & typeof XSS;
+  export default xss;
 }
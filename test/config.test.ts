@@ -0,0 +1,257 @@
+import { describe, expect, it } from "vitest";
+import {
+  comparePublicConfig,
+  ConfigError,
+  describeConfig,
+  getPublicConfig,
+  loadConfig,
+  readPublicConfig,
+} from "../server/config.js";
+
+/** Smallest environment a Contentstack-backed server starts with */
+const STACK_ENV = { CONTENTSTACK_API_KEY: "blt_api_key", CONTENTSTACK_DELIVERY_TOKEN: "cs_delivery_secret" };
+
+/** Problems a ConfigError reports for an environment */
+function getProblems(env: Record<string, string>): string[] {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    if (error instanceof ConfigError) return error.problems;
+    throw error;
+  }
+  return [];
+}
+
+describe("loadConfig", () => {
+  it("applies the documented defaults", () => {
+    expect(loadConfig(STACK_ENV)).toEqual({
+      contentstack: {
+        apiKey: "blt_api_key",
+        environment: "production",
+        region: "na",
+        preview: false,
+        previewSsr: false,
+        notFoundUrl: undefined,
+        linkBase: undefined,
+        internalHosts: [],
+        embedOrigins: ["https://www.youtube.com", "https://www.youtube-nocookie.com", "https://player.vimeo.com"],
+        locales: ["en-us"],
+        localeFallbacks: {},
+        deliveryToken: "cs_delivery_secret",
+        previewToken: undefined,
+        webhookSecret: undefined,
+      },
+      port: 3000,
+      assetBaseUrl: "",
+      contentProvider: "contentstack",
+      fixturesDir: "fixtures/content",
+      cache: { ttl: 60, staleWhileRevalidate: 300, maxEntries: 500 },
+      stateFormat: "script",
+      isolation: "none",
+      healthProbeTtl: 10,
+      shutdownDelay: 5,
+      shutdownTimeout: 20,
+      buildCommit: undefined,
+    });
+  });
+
+  it("parses every setting", () => {
+    const config = loadConfig({
+      ...STACK_ENV,
+      PORT: "8080",
+      ASSET_BASE_URL: "https://cdn.example.com/fragments/",
+      CONTENTSTACK_REGION: "azure_eu",
+      CONTENTSTACK_PREVIEW: "true",
+      CONTENTSTACK_PREVIEW_SSR: "true",
+      CONTENTSTACK_PREVIEW_TOKEN: "cs_preview_secret",
+      CONTENTSTACK_LINK_BASE: "https://shop.example.com/content",
+      CONTENTSTACK_INTERNAL_HOSTS: " www.Example.com, example.com ,",
+      CONTENTSTACK_EMBED_ORIGINS: "https://Player.Vimeo.com/,https://www.loom.com",
+      FRAGMENT_CACHE_TTL: "0",
+      FRAGMENT_STATE_FORMAT: "json",
+      FRAGMENT_ISOLATION: "shadow",
+    });
+
+    expect(config.port).toBe(8080);
+    expect(config.assetBaseUrl).toBe("https://cdn.example.com/fragments");
+    expect(config.contentstack).toMatchObject({
+      region: "azure-eu",
+      preview: true,
+      previewSsr: true,
+      linkBase: "https://shop.example.com/content",
+      internalHosts: ["www.example.com", "example.com"],
+      embedOrigins: ["https://player.vimeo.com", "https://www.loom.com"],
+    });
+    expect(config.cache.ttl).toBe(0);
+    expect(config).toMatchObject({ stateFormat: "json", isolation: "shadow" });
+  });
+
+  it("reports every invalid variable at once", () => {
+    const problems = getProblems({
+      CONTENTSTACK_REGION: "mars",
+      CONTENTSTACK_PREVIEW: "yes",
+      CONTENTSTACK_NOT_FOUND_URL: "404",
+      CONTENTSTACK_EMBED_ORIGINS: "https://www.youtube.com/embed",
+      ASSET_BASE_URL: "cdn.example.com",
+      PORT: "http",
+      FRAGMENT_CACHE_SWR: "-1",
+      FRAGMENT_ISOLATION: "iframe",
+    });
+
+    expect(problems).toEqual([
+      'CONTENTSTACK_REGION: unknown region "mars" (e.g., us, eu, au, azure-na, azure-eu, gcp-na, gcp-eu)',
+      'CONTENTSTACK_PREVIEW: expected "true" or "false", got "yes"',
+      "CONTENTSTACK_API_KEY is required",
+      'CONTENTSTACK_NOT_FOUND_URL: expected a path ("/404"), got "404"',
+      'CONTENTSTACK_EMBED_ORIGINS: expected an origin (https://www.youtube.com), got "https://www.youtube.com/embed"',
+      "CONTENTSTACK_DELIVERY_TOKEN is required",
+      'PORT: expected a whole number from 1 to 65535, got "http"',
+      'ASSET_BASE_URL: expected an absolute http(s) URL, got "cdn.example.com"',
+      'FRAGMENT_CACHE_SWR: expected a whole number of at least 0, got "-1"',
+      'FRAGMENT_ISOLATION: expected one of none, shadow, got "iframe"',
+    ]);
+  });
+
+  it("lists the problems in the error message", () => {
+    expect(() => loadConfig({})).toThrow(/^Invalid configuration:\n {2}- CONTENTSTACK_API_KEY is required/);
+  });
+
+  it("requires the preview token for live preview", () => {
+    expect(getProblems({ ...STACK_ENV, CONTENTSTACK_PREVIEW: "true" })).toEqual([
+      "CONTENTSTACK_PREVIEW_TOKEN is required",
+    ]);
+  });
+
+  it("needs no tokens for fixture content", () => {
+    const config = loadConfig({
+      CONTENTSTACK_API_KEY: "blt_api_key",
+      CONTENTSTACK_PREVIEW: "true",
+      FRAGMENT_CONTENT_PROVIDER: "fixtures",
+    });
+    expect(config.contentProvider).toBe("fixtures");
+    expect(config.contentstack.deliveryToken).toBeUndefined();
+  });
+
+  it("needs no API key for fixture content", () => {
+    const config = loadConfig({ FRAGMENT_CONTENT_PROVIDER: "fixtures" });
+
+    expect(config.contentstack.apiKey).toBe("");
+    expect(describeConfig(config)).toContain("API key: not set");
+    expect(getProblems({ FRAGMENT_CONTENT_PROVIDER: "record" })).toContain("CONTENTSTACK_API_KEY is required");
+  });
+
+  it("only renders previews on the server in preview mode", () => {
+    expect(loadConfig({ ...STACK_ENV, CONTENTSTACK_PREVIEW_SSR: "true" }).contentstack.previewSsr).toBe(false);
+  });
+});
+
+describe("readPublicConfig", () => {
+  it("reads the client build's variables", () => {
+    const env = { CONTENTSTACK_API_KEY: "blt_api_key", CONTENTSTACK_REGION: "EU", CONTENTSTACK_LOCALES: "en-US,fr-fr" };
+
+    expect(readPublicConfig(env)).toEqual({
+      apiKey: "blt_api_key",
+      environment: "production",
+      region: "eu",
+      preview: false,
+      previewSsr: false,
+      notFoundUrl: undefined,
+      linkBase: undefined,
+      internalHosts: [],
+      embedOrigins: ["https://www.youtube.com", "https://www.youtube-nocookie.com", "https://player.vimeo.com"],
+      locales: ["en-us", "fr-fr"],
+      localeFallbacks: {},
+    });
+  });
+
+  it("doesn't ask for server-only variables", () => {
+    expect(() => readPublicConfig({ CONTENTSTACK_API_KEY: "blt_api_key" })).not.toThrow();
+    expect(() => readPublicConfig({})).toThrow(ConfigError);
+    expect(readPublicConfig({}, { requireApiKey: false }).apiKey).toBe("");
+  });
+});
+
+describe("comparePublicConfig", () => {
+  const built = readPublicConfig({ ...STACK_ENV, CONTENTSTACK_LOCALES: "en-us,fr-fr" });
+
+  it("accepts a server configured like the client build", () => {
+    const config = loadConfig({ ...STACK_ENV, CONTENTSTACK_LOCALES: "en-us,fr-fr" });
+    expect(comparePublicConfig(built, config.contentstack)).toEqual([]);
+  });
+
+  it("names every variable that differs, without the API key's values", () => {
+    const config = loadConfig({ ...STACK_ENV, CONTENTSTACK_API_KEY: "blt_other_key", CONTENTSTACK_LOCALES: "en-us" });
+    const problems = comparePublicConfig(built, config.contentstack);
+
+    expect(problems).toEqual([
+      "CONTENTSTACK_API_KEY: the client was built with another value",
+      'CONTENTSTACK_LOCALES: client built with ["en-us","fr-fr"], server has ["en-us"]',
+    ]);
+    expect(problems.join("\n")).not.toContain("blt_");
+  });
+
+  it("catches a client built without the API key the server's provider needs", () => {
+    const keyless = readPublicConfig({ CONTENTSTACK_LOCALES: "en-us,fr-fr" }, { requireApiKey: false });
+    const config = loadConfig({ ...STACK_ENV, CONTENTSTACK_LOCALES: "en-us,fr-fr" });
+
+    expect(comparePublicConfig(keyless, config.contentstack)).toEqual([
+      "CONTENTSTACK_API_KEY: the client was built with another value",
+    ]);
+  });
+});
+
+describe("locales", () => {
+  it("reads the supported locales and their fallbacks", () => {
+    const config = loadConfig({
+      ...STACK_ENV,
+      CONTENTSTACK_LOCALES: "en-us, fr-fr ,FR-CA",
+      CONTENTSTACK_LOCALE_FALLBACKS: "fr-ca:fr-fr",
+    });
+
+    expect(config.contentstack.locales).toEqual(["en-us", "fr-fr", "fr-ca"]);
+    expect(config.contentstack.localeFallbacks).toEqual({ "fr-ca": "fr-fr" });
+    expect(describeConfig(config)).toContain("Locales: en-us (default), fr-fr, fr-ca → fr-fr");
+  });
+
+  it("rejects malformed codes and fallbacks to unsupported locales", () => {
+    const problems = getProblems({
+      ...STACK_ENV,
+      CONTENTSTACK_LOCALES: "en-us,fr_FR,fr-ca",
+      CONTENTSTACK_LOCALE_FALLBACKS: "fr-ca,fr-ca:de-de",
+    });
+
+    expect(problems).toEqual([
+      'CONTENTSTACK_LOCALES: invalid locale code "fr_fr" (e.g., en-us, fr-fr)',
+      'CONTENTSTACK_LOCALE_FALLBACKS: expected "locale:fallback" (e.g., fr-ca:fr-fr), got "fr-ca"',
+      'CONTENTSTACK_LOCALE_FALLBACKS: "de-de" not in CONTENTSTACK_LOCALES',
+    ]);
+  });
+});
+
+describe("redaction", () => {
+  const config = loadConfig({
+    ...STACK_ENV,
+    CONTENTSTACK_PREVIEW: "true",
+    CONTENTSTACK_PREVIEW_TOKEN: "cs_preview_secret",
+    CONTENTSTACK_WEBHOOK_SECRET: "webhook_secret",
+  });
+
+  it("keeps secrets out of the startup summary", () => {
+    const summary = describeConfig(config).join("\n");
+
+    expect(summary).toContain("Content: contentstack (region na, environment production)");
+    expect(summary).toContain("Delivery token: set (redacted)");
+    ["blt_api_key", "cs_delivery_secret", "cs_preview_secret", "webhook_secret"].forEach((secret) =>
+      expect(summary).not.toContain(secret)
+    );
+  });
+
+  it("keeps secrets and credentials out of the health check", () => {
+    const body = JSON.stringify(getPublicConfig(config));
+
+    expect(getPublicConfig(config)).toMatchObject({ preview: true, webhooks: true });
+    ["blt_api_key", "cs_delivery_secret", "cs_preview_secret", "webhook_secret"].forEach((secret) =>
+      expect(body).not.toContain(secret)
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { cpSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import request from "supertest";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { ContentUnavailableError } from "../src/api/errors";
+import { createBuildAssets } from "../server/assets.js";
+import { drainServer, shutdownServer } from "../server/shutdown.js";
+import { clientDir, createTestApp } from "./helpers";
+
+describe("GET /health/live", () => {
+  it("answers while the process runs", async () => {
+    const response = await request(createTestApp()).get("/health/live");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({ status: "ok" });
+    expect(response.headers["cache-control"]).toBe("no-store");
+  });
+});
+
+describe("GET /health/ready", () => {
+  it("is ready when the SSR module, client build and content provider work", async () => {
+    const response = await request(createTestApp()).get("/health/ready");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      status: "ready",
+      checks: { ssr: { status: "ok" }, assets: { status: "ok" }, content: { status: "ok" } },
+      build: { version: expect.any(String), node: process.version },
+    });
+    expect(response.headers["cache-control"]).toBe("no-store");
+  });
+
+  it("fails while the content provider is unreachable, and reuses the probe result", async () => {
+    const fetchRouteContent = vi.fn(async () => {
+      throw new ContentUnavailableError("Contentstack request failed");
+    });
+    const app = createTestApp({ fetchRouteContent });
+
+    const response = await request(app).get("/health/ready");
+    await request(app).get("/health/ready");
+
+    expect(response.status).toBe(503);
+    expect(response.body).toMatchObject({
+      status: "unavailable",
+      checks: { ssr: { status: "ok" }, content: { status: "fail", error: "Contentstack request failed" } },
+    });
+    expect(fetchRouteContent).toHaveBeenCalledTimes(1);
+  });
+
+  it("fails when the SSR module doesn't load", async () => {
+    const app = createTestApp(
+      {},
+      { renderer: { load: () => Promise.reject(new Error("Cannot find module entry-server.js")) } }
+    );
+    const response = await request(app).get("/health/ready");
+
+    expect(response.status).toBe(503);
+    expect(response.body.checks.ssr).toMatchObject({ status: "fail", error: "Cannot find module entry-server.js" });
+  });
+
+  describe("client build", () => {
+    let buildDir: string;
+
+    afterEach(() => rmSync(buildDir, { recursive: true, force: true }));
+
+    it("fails when another build replaced the one loaded at startup", async () => {
+      buildDir = mkdtempSync(join(tmpdir(), "fragment-build-"));
+      cpSync(clientDir, buildDir, { recursive: true });
+      const app = createTestApp({}, { assets: createBuildAssets(buildDir) });
+      expect((await request(app).get("/health/ready")).status).toBe(200);
+
+      const manifestPath = join(buildDir, ".vite/manifest.json");
+      const manifest = JSON.parse(readFileSync(manifestPath, "utf-8"));
+      manifest["src/entry-client.tsx"].file = "assets/entry-client-next.js";
+      writeFileSync(manifestPath, JSON.stringify(manifest));
+
+      const response = await request(app).get("/health/ready");
+      expect(response.status).toBe(503);
+      expect(response.body.checks.assets.error).toContain("Client build changed on disk");
+    });
+  });
+
+  it("reports a shutdown in progress", async () => {
+    const shutdown = new AbortController();
+    const app = createTestApp({}, { signal: shutdown.signal });
+    shutdown.abort();
+
+    const response = await request(app).get("/health/ready");
+    expect(response.status).toBe(503);
+    expect(response.body).toMatchObject({ status: "shutting down" });
+  });
+});
+
+describe("shutdownServer", () => {
+  it("keeps serving with readiness failing until the delay is over", async () => {
+    const shutdown = new AbortController();
+    const server = createTestApp({}, { signal: shutdown.signal }).listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    const stopped = shutdownServer(server, { shutdown, delay: 0.3, timeout: 5, log: () => {} });
+
+    const ready = await fetch(`${url}/health/ready`);
+    expect(ready.status).toBe(503);
+    expect(await ready.json()).toMatchObject({ status: "shutting down" });
+    expect((await fetch(`${url}/about`)).status).toBe(200);
+
+    expect(await stopped).toBe(true);
+    await expect(fetch(`${url}/health/live`)).rejects.toThrow();
+  });
+});
+
+describe("drainServer", () => {
+  /** Start a server whose responses take `delay` ms (never answers when null) */
+  async function startServer(delay: number | null): Promise<{ server: Server; url: string }> {
+    const server = createServer((_req, res) => {
+      if (delay !== null) setTimeout(() => res.end("rendered"), delay);
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return { server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/` };
+  }
+
+  it("lets in-flight requests finish before closing", async () => {
+    const { server, url } = await startServer(100);
+    const response = fetch(url).then((res) => res.text());
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const drained = drainServer(server, 5_000);
+
+    expect(await response).toBe("rendered");
+    expect(await drained).toBe(true);
+    await expect(fetch(url)).rejects.toThrow();
+  });
+
+  it("closes what's left after the timeout", async () => {
+    const { server, url } = await startServer(null);
+    const response = fetch(url).catch(() => "connection closed");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(await drainServer(server, 50)).toBe(false);
+    expect(await response).toBe("connection closed");
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Test helpers - boot the fragment server in-process
+ *
+ * WHAT THIS DOES:
+ * - Creates the production app (server/app.ts) against the client build
+ *   (dist/client, built by `npm test` before the tests run)
+ * - Loads the SSR module from source, so tests never need a server build
+ * - Content comes from fixtures/content, configuration from the pinned
+ *   test environment (see vitest.config.ts)
+ *
+ * USAGE:
+ * const app = createTestApp();
+ * const response = await request(app).get("/about");
+ */
+
+import { readFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createFragmentApp, type FragmentAppOptions } from "../server/app.js";
+import { createBuildAssets } from "../server/assets.js";
+import { loadConfig } from "../server/config.js";
+import { readBuildInfo } from "../server/health.js";
+import type { Manifest, SSRModule } from "../server/types.js";
+
+/** Project root (package.json) */
+export const rootDir = fileURLToPath(new URL("..", import.meta.url));
+
+/** Client build the app serves assets from */
+export const clientDir = fileURLToPath(new URL("../dist/client", import.meta.url));
+
+/** Load the SSR module from source (compiled by Vitest) */
+export async function loadSSRModule(): Promise<SSRModule> {
+  return (await import("../src/entry-server")) as SSRModule;
+}
+
+/**
+ * Create an app for one test (each app has its own fragment cache)
+ *
+ * @param overrides - Replace parts of the SSR module (e.g., a fetch that fails)
+ * @param options - Replace app options (e.g., a shutdown signal)
+ */
+export function createTestApp(overrides: Partial<SSRModule> = {}, options: Partial<FragmentAppOptions> = {}) {
+  return createFragmentApp({
+    mode: "production",
+    renderer: { load: async () => ({ ...(await loadSSRModule()), ...overrides }) },
+    assets: createBuildAssets(clientDir),
+    config: loadConfig(),
+    build: readBuildInfo(rootDir),
+    ...options,
+  });
+}
+
+/** The client build's manifest (what asset tags must point at) */
+export function readManifest(): Manifest {
+  return JSON.parse(readFileSync(resolve(clientDir, ".vite/manifest.json"), "utf-8")) as Manifest;
+}
@@ -0,0 +1,102 @@
+/**
+ * Hydration: the client must produce exactly the markup the server sent
+ * (*.dom.test.ts - runs in jsdom, see vitest.config.ts)
+ *
+ * Each test fetches a fragment from the fragment server (test/setup/server.ts),
+ * puts it into the DOM like a host page would, and hydrates it with the
+ * real client entry.
+ * React reports every mismatch with console.error (dev build), so none
+ * may be logged.
+ */
+
+import { afterEach, beforeEach, expect, inject, it, vi, type MockInstance } from "vitest";
+
+const serverUrl = inject("fragmentServerUrl");
+
+let consoleError: MockInstance<typeof console.error>;
+
+beforeEach(() => {
+  consoleError = vi.spyOn(console, "error");
+  window.__FRAGMENT_CONTENT__ = undefined;
+});
+
+afterEach(() => {
+  document.body.innerHTML = "";
+  vi.restoreAllMocks();
+});
+
+/**
+ * Insert a server response into the page, as the host would
+ * - Inline state scripts don't run when inserted with innerHTML, so they
+ *   are executed here; the dev server's module scripts and asset tags are
+ *   dropped (the client entry is imported from source instead)
+ */
+function insertFragment(html: string): HTMLElement {
+  const container = document.createElement("div");
+  container.innerHTML = html;
+  container.querySelectorAll("script").forEach((script) => {
+    if (script.src || script.type === "module") script.remove();
+    else if (!script.type) new Function(script.textContent ?? "")();
+  });
+  container.querySelectorAll("link").forEach((link) => link.remove());
+  document.body.append(container);
+  return container.querySelector<HTMLElement>("[data-fragment-root]")!;
+}
+
+/** Whether React has taken over an element (hydrated it) */
+function isHydrated(element: Element): boolean {
+  return Object.keys(element).some((key) => key.startsWith("__reactFiber$"));
+}
+
+/**
+ * Render a URL on the server, then hydrate it in the DOM
+ *
+ * @param selector - Elements hydration must reach before the test checks
+ *   for mismatches (lazy blocks hydrate once their chunk has loaded)
+ */
+async function renderAndHydrate(url: string, selector: string) {
+  window.history.replaceState(null, "", url);
+  const response = await fetch(new URL(url, serverUrl));
+  const root = insertFragment(await response.text());
+  const serverHtml = root.innerHTML;
+
+  // The entry hydrates roots already in the page on load and watches for
+  // later ones (only the first test loads it)
+  await import("../src/entry-client");
+  await vi.waitFor(() => {
+    const targets = [...root.querySelectorAll(selector)];
+    expect(targets.length).toBeGreaterThan(0);
+    expect(targets.every(isHydrated)).toBe(true);
+  });
+
+  return { response, root, serverHtml };
+}
+
+/** console.error calls (hydration mismatches, recoverable errors) */
+function loggedErrors(): string[] {
+  return consoleError.mock.calls.map((args) => args.map(String).join(" "));
+}
+
+it("hydrates a Page with blocks without mismatches", async () => {
+  const { root, serverHtml } = await renderAndHydrate("/", "section h2");
+
+  expect(loggedErrors()).toEqual([]);
+  expect(root.innerHTML).toBe(serverHtml);
+  expect(root.hasAttribute("data-fragment-hydrated")).toBe(true);
+});
+
+it("hydrates a BlockComponent without mismatches", async () => {
+  const { root, serverHtml } = await renderAndHydrate("/about", "article h2");
+
+  expect(root.querySelector("section")?.textContent).toContain("How it works");
+  expect(loggedErrors()).toEqual([]);
+  expect(root.innerHTML).toBe(serverHtml);
+});
+
+it("hydrates the not-found state without mismatches", async () => {
+  const { response, root, serverHtml } = await renderAndHydrate("/does-not-exist", "h1");
+
+  expect(response.status).toBe(404);
+  expect(loggedErrors()).toEqual([]);
+  expect(root.innerHTML).toBe(serverHtml);
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import type { JsonRteNode } from "../src/api/contentstack";
+import { sanitizeJsonRte } from "../src/api/sanitize";
+
+const embedOrigins = ["https://www.youtube.com", "https://player.vimeo.com"];
+
+/** A document holding one embed node */
+function embed(attrs: Record<string, unknown>): JsonRteNode {
+  return { type: "doc", children: [{ type: "embed", attrs, children: [{ text: "" }] }] };
+}
+
+describe("sanitizeJsonRte embeds", () => {
+  it("keeps embeds from allow-listed origins", () => {
+    const doc = embed({ src: "https://www.youtube.com/embed/dQw4w9WgXcQ", title: "Launch video" });
+    sanitizeJsonRte(doc, { embedOrigins });
+
+    expect(doc.children?.[0]).toMatchObject({
+      type: "embed",
+      attrs: { src: "https://www.youtube.com/embed/dQw4w9WgXcQ" },
+    });
+  });
+
+  it("turns other embeds into links", () => {
+    const doc = embed({ src: "https://tracker.example.net/widget", title: "Survey" });
+    sanitizeJsonRte(doc, { embedOrigins });
+
+    expect(doc.children?.[0]).toEqual({
+      type: "a",
+      attrs: { url: "https://tracker.example.net/widget", target: "_blank", rel: "noopener" },
+      children: [{ text: "Survey" }],
+    });
+  });
+
+  it("drops embeds without a safe URL", () => {
+    const doc = embed({ url: "javascript:alert(1)" });
+    sanitizeJsonRte(doc, { embedOrigins });
+
+    expect(doc.children?.[0]).toEqual({ type: "fragment", attrs: {}, children: [] });
+  });
+
+  it("allows no embeds without an allow-list", () => {
+    const doc = embed({ src: "https://player.vimeo.com/video/76979871" });
+    sanitizeJsonRte(doc);
+
+    expect(doc.children?.[0]).toMatchObject({ type: "a", children: [{ text: "https://player.vimeo.com/video/76979871" }] });
+  });
+});
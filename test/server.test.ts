@@ -0,0 +1,428 @@
+import { readFileSync } from "node:fs";
+import request from "supertest";
+import { beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import { ContentUnavailableError } from "../src/api/errors";
+import { createFragmentApp } from "../server/app.js";
+import { loadConfig } from "../server/config.js";
+import { readBuildInfo } from "../server/health.js";
+import { createFragmentId } from "../server/fragment.js";
+import { getCacheKey } from "../server/cache.js";
+import { purgeEvents } from "../server/webhooks.js";
+import type { FragmentAssetSource, FragmentEnvelope, SSRModule } from "../server/types.js";
+import { createTestApp, loadSSRModule, readManifest, rootDir } from "./helpers";
+
+/** Fixture uids (fixtures/content) */
+const HOME_UID = "blt1a2b3c4d5e6f7a8b";
+const ABOUT_UID = "blt8c3a2f5e9d1b7c04";
+const NOT_FOUND_UID = "blt9f8e7d6c5b4a3f2e";
+
+const manifest = readManifest();
+
+/** Built file of a manifest entry, as the server links it */
+const assetUrl = (source: string) => `/${manifest[source].file}`;
+
+let app: ReturnType<typeof createTestApp>;
+
+beforeEach(() => {
+  // The server logs handled errors (503, 500) - keep test output readable
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  app = createTestApp();
+});
+
+describe("GET /* (HTML fragment)", () => {
+  it("renders the page into a fragment root with its initial content", async () => {
+    const response = await request(app).get("/about");
+    const id = createFragmentId(getCacheKey("/about", "en-us"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toBe("text/html; charset=utf-8");
+    expect(response.text).toContain(`<div id="${id}" data-fragment-root data-fragment-url="/about"`);
+    expect(response.text).toMatch(/<h1[^>]*>About<\/h1>/);
+    expect(response.text).toContain(`(window.__FRAGMENT_CONTENT__=window.__FRAGMENT_CONTENT__||{})["${id}"]=`);
+    expect(response.text).toContain(`"uid":"${ABOUT_UID}"`);
+  });
+
+  it("links the client build from the manifest, with integrity", async () => {
+    const response = await request(app).get("/about");
+    const entry = manifest["src/entry-client.tsx"];
+
+    expect(response.text).toMatch(
+      new RegExp(`<script type="module" src="${assetUrl("src/entry-client.tsx")}" integrity="sha384-[^"]+" crossorigin></script>`)
+    );
+    for (const css of entry.css ?? []) {
+      expect(response.text).toMatch(new RegExp(`<link rel="stylesheet" href="/${css}" integrity="sha384-[^"]+" crossorigin>`));
+    }
+  });
+
+  it("preloads the chunks of the lazy components the page rendered", async () => {
+    const home = await request(app).get("/");
+    expect(home.text).toContain(`<link rel="modulepreload" href="${assetUrl("src/components/blocks/Hero.tsx")}"`);
+    expect(home.text).toContain(`<link rel="modulepreload" href="${assetUrl("src/components/blocks/CallToAction.tsx")}"`);
+    expect(home.text).not.toContain(`href="${assetUrl("src/components/BlockComponent.tsx")}"`);
+
+    const about = await request(app).get("/about");
+    expect(about.text).toContain(`<link rel="modulepreload" href="${assetUrl("src/components/BlockComponent.tsx")}"`);
+  });
+
+  it("serves the hashed assets it links", async () => {
+    const response = await request(app).get(assetUrl("src/entry-client.tsx"));
+
+    expect(response.status).toBe(200);
+    expect(response.headers["cache-control"]).toContain("immutable");
+    expect(response.headers["access-control-allow-origin"]).toBe("*");
+  });
+
+  it("sets caching, locale and CORS headers", async () => {
+    const response = await request(app).get("/about");
+
+    expect(response.headers.etag).toMatch(/^"[^"]+"$/);
+    expect(response.headers["cache-control"]).toBe("public, max-age=60, stale-while-revalidate=300");
+    expect(response.headers["surrogate-key"].split(" ")).toEqual(
+      expect.arrayContaining(["page", "url:/about", ABOUT_UID, HOME_UID])
+    );
+    expect(response.headers["content-language"]).toBe("en-us");
+    expect(response.headers.vary).toContain("Accept-Language");
+    expect(response.headers["access-control-allow-origin"]).toBe("*");
+    expect(response.headers.link).toBe(
+      '</about>; rel="alternate"; hreflang="en-us", </fr-fr/a-propos>; rel="alternate"; hreflang="fr-fr"'
+    );
+  });
+
+  it("caches renders and revalidates with If-None-Match", async () => {
+    const first = await request(app).get("/about");
+    const second = await request(app).get("/about");
+    expect(first.status).toBe(200);
+    expect(first.headers["x-cache"]).toBe("MISS");
+    expect(second.headers["x-cache"]).toBe("HIT");
+
+    const revalidated = await request(app).get("/about").set("If-None-Match", first.headers.etag);
+    expect(revalidated.status).toBe(304);
+    expect(revalidated.text).toBe("");
+  });
+
+  it("renders the locale of a prefixed URL", async () => {
+    const response = await request(app).get("/fr-fr/a-propos");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-language"]).toBe("fr-fr");
+    expect(response.text).toContain('data-fragment-locale="fr-fr"');
+    expect(response.text).toMatch(/<h1[^>]*>À propos<\/h1>/);
+  });
+
+  it("routes content types by URL pattern, with resolved references", async () => {
+    const article = await request(app).get("/blog/hello-world");
+    expect(article.status).toBe(200);
+    expect(article.text).toMatch(/<h1[^>]*>Hello, world<\/h1>/);
+    expect(article.text).toContain("Jane Doe");
+
+    const product = await request(app).get("/products/SKU-123");
+    expect(product.status).toBe(200);
+    expect(product.text).toMatch(/<h1[^>]*>Fixture Product<\/h1>/);
+  });
+
+  it("answers 404 with the CMS 404 page", async () => {
+    const response = await request(app).get("/does-not-exist");
+
+    expect(response.status).toBe(404);
+    expect(response.text).toMatch(/<h1[^>]*>Page not found<\/h1>/);
+    expect(response.text).toContain(`"uid":"${NOT_FOUND_UID}"`);
+  });
+
+  it("answers 503 with Retry-After when content is unavailable", async () => {
+    const failing = createTestApp({
+      fetchRouteContent: async () => {
+        throw new ContentUnavailableError("Contentstack is down", { retryAfter: 12 });
+      },
+    });
+    const response = await request(failing).get("/about");
+
+    expect(response.status).toBe(503);
+    expect(response.headers["retry-after"]).toBe("12");
+    expect(response.headers["cache-control"]).toBe("no-store");
+  });
+
+  it("answers 500 when rendering fails", async () => {
+    const failing = createTestApp({
+      render: (async () => {
+        throw new Error("render failed");
+      }) as never,
+    });
+    const response = await request(failing).get("/about");
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe("Internal Server Error");
+  });
+
+  it("answers 500 and caches nothing when a page component throws", async () => {
+    // An invalid date makes the article page throw while it renders
+    const fetchRouteContent = vi.fn(async () => ({
+      uid: "blt_broken_article",
+      _content_type_uid: "article",
+      title: "Broken",
+      date: "not a date",
+    }));
+    const failing = createTestApp({ fetchRouteContent } as Partial<SSRModule>);
+
+    const response = await request(failing).get("/blog/broken");
+    const retry = await request(failing).get("/blog/broken");
+
+    expect(response.status).toBe(500);
+    expect(response.headers["cache-control"]).toBe("no-store");
+    expect(retry.status).toBe(500);
+    expect(retry.headers["x-cache"]).not.toBe("HIT");
+    expect(fetchRouteContent).toHaveBeenCalledTimes(2);
+  });
+
+  it("stamps the host's CSP nonce on every tag", async () => {
+    const response = await request(app).get("/about").set("X-CSP-Nonce", "r4nd0mN0nc3Value");
+    const tags = response.text.match(/<(script|link)\b[^>]*>/g) ?? [];
+
+    expect(tags.length).toBeGreaterThan(1);
+    for (const tag of tags) expect(tag).toContain('nonce="r4nd0mN0nc3Value"');
+  });
+
+  it("uses the host's fragment id", async () => {
+    const response = await request(app).get("/about").set("X-Fragment-Id", "promo");
+    expect(response.text).toContain('<div id="promo" data-fragment-root');
+  });
+
+  it("renders inside a declarative shadow root with ?isolation=shadow", async () => {
+    const response = await request(app).get("/about?isolation=shadow");
+
+    expect(response.text).toContain('<template shadowrootmode="open">');
+    expect(response.text).toContain("data-fragment-shadow");
+  });
+
+  it("streams the render with ?stream=true", async () => {
+    const response = await request(app).get("/about?stream=true");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["cache-control"]).toBe("no-store");
+    expect(response.text).toContain("data-fragment-root");
+    expect(response.text).toContain("About");
+  });
+});
+
+describe("GET /* (JSON envelope)", () => {
+  it("returns the fragment, its assets and initial state as separate fields", async () => {
+    const response = await request(app).get("/about?format=json");
+    const envelope = response.body as FragmentEnvelope;
+
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toBe("application/json; charset=utf-8");
+    expect(envelope.status).toBe(200);
+    expect(envelope.locale).toBe("en-us");
+    expect(envelope.html).toContain("data-fragment-root");
+    expect(envelope.initialState).toMatchObject({ uid: ABOUT_UID, title: "About" });
+    expect(envelope.scripts.map((script) => script.src)).toContain(assetUrl("src/entry-client.tsx"));
+    expect(envelope.cache).toMatchObject({ status: "MISS" });
+  });
+
+  it("answers errors as JSON", async () => {
+    const failing = createTestApp({
+      fetchRouteContent: async () => {
+        throw new ContentUnavailableError("Contentstack is down");
+      },
+    });
+    const response = await request(failing).get("/about").set("Accept", "application/json");
+
+    expect(response.status).toBe(503);
+    expect(response.body).toEqual({ status: 503, error: "Service Unavailable" });
+  });
+});
+
+describe("GET /api/content", () => {
+  it("returns the entry a slug routes to", async () => {
+    const response = await request(app).get("/api/content?slug=/a-propos&locale=fr-fr");
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({ slug: "/a-propos", locale: "fr-fr", status: 200 });
+    expect(response.body.content).toMatchObject({ uid: ABOUT_UID, title: "À propos" });
+  });
+
+  it("caches content without rendering it", async () => {
+    const render = vi.fn(async () => {
+      throw new Error("The content API must not render");
+    });
+    const api = createTestApp({ render });
+
+    const first = await request(api).get("/api/content?slug=/about");
+    const second = await request(api).get("/api/content?slug=/about");
+
+    expect(first.status).toBe(200);
+    expect(first.headers["x-cache"]).toBe("MISS");
+    expect(second.headers["x-cache"]).toBe("HIT");
+    expect(render).not.toHaveBeenCalled();
+  });
+
+  it("keys the cache on the locale header", async () => {
+    const french = await request(app).get("/api/content?slug=/a-propos").set("X-Fragment-Locale", "fr-fr");
+    const english = await request(app).get("/api/content?slug=/a-propos");
+
+    expect(french.body).toMatchObject({ locale: "fr-fr", status: 200 });
+    expect(french.headers.vary).toContain("X-Fragment-Locale");
+    expect(english.body).toMatchObject({ locale: "en-us" });
+    expect(english.headers["x-cache"]).toBe("MISS");
+  });
+
+  it("rejects a missing slug", async () => {
+    const response = await request(app).get("/api/content");
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("live preview", () => {
+  const config = loadConfig();
+  const createPreviewApp = () =>
+    createTestApp(
+      {},
+      { config: { ...config, contentstack: { ...config.contentstack, preview: true, previewToken: "test-preview-token" } } }
+    );
+
+  it("renders a preview session without the cache", async () => {
+    const preview = createPreviewApp();
+    await request(preview).get("/about");
+    const response = await request(preview).get("/about?live_preview=3f8c2a9e1b7d4c6a8e5f0b2d9c4a7e1f");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["x-cache"]).toBe("BYPASS");
+    expect(response.headers["cache-control"]).toBe("no-store");
+  });
+
+  it("serves a bogus hash from the cache", async () => {
+    const preview = createPreviewApp();
+    await request(preview).get("/about");
+    const response = await request(preview).get("/about?live_preview=x");
+
+    expect(response.status).toBe(200);
+    expect(response.headers["x-cache"]).toBe("HIT");
+    expect(response.headers["cache-control"]).not.toBe("no-store");
+  });
+});
+
+describe("other routes", () => {
+  it("reports health", async () => {
+    const response = await request(app).get("/health");
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      status: "ok",
+      mode: "production",
+      previewMode: false,
+      config: {
+        contentProvider: "fixtures",
+        environment: "test",
+        region: "na",
+        preview: false,
+        previewSsr: false,
+        webhooks: true,
+        assetBaseUrl: null,
+        cache: { ttl: 60, staleWhileRevalidate: 300, maxEntries: 500 },
+        stateFormat: "script",
+        isolation: "none",
+      },
+      build: { version: expect.any(String), commit: null, node: process.version, startedAt: expect.any(String) },
+    });
+    expect(response.text).not.toContain("test-webhook-secret");
+  });
+
+  it("redirects /content-fragment.js to the built element", async () => {
+    const response = await request(app).get("/content-fragment.js");
+    expect(response.status).toBe(302);
+    expect(response.headers.location).toBe(assetUrl("src/content-fragment.ts"));
+  });
+});
+
+describe("development mode", () => {
+  // Stand-in for Vite: serves nothing, links the source entry
+  const devAssets: FragmentAssetSource = {
+    middleware: (_req, _res, next) => next(),
+    getEntryAssets: () => ({ css: [], modulepreload: [], scripts: [{ type: "module", src: "/src/entry-client.tsx" }] }),
+    contentFragmentUrl: "/src/content-fragment.ts",
+  };
+
+  const createDevApp = () =>
+    createFragmentApp({
+      mode: "development",
+      renderer: { load: loadSSRModule },
+      assets: devAssets,
+      config: loadConfig(),
+      build: readBuildInfo(rootDir),
+    });
+
+  it("runs the same pipeline with the dev assets", async () => {
+    const response = await request(createDevApp()).get("/about");
+
+    expect(response.status).toBe(200);
+    expect(response.text).toContain("data-fragment-root");
+    expect(response.text).toContain('<script type="module" src="/src/entry-client.tsx"');
+    expect(response.headers.link).toContain('hreflang="fr-fr"');
+  });
+
+  it("never caches renders", async () => {
+    const app = createDevApp();
+    await request(app).get("/about");
+    const response = await request(app).get("/about");
+
+    expect(response.headers["x-cache"]).toBe("BYPASS");
+    expect(response.headers["cache-control"]).toBe("no-cache");
+  });
+
+  it("reports its mode", async () => {
+    const response = await request(createDevApp()).get("/health");
+    expect(response.body).toMatchObject({ status: "ok", mode: "development" });
+  });
+
+  it("answers errors like production and logs source stack traces", async () => {
+    const fixStacktrace = vi.fn();
+    const app = createFragmentApp({
+      mode: "development",
+      renderer: {
+        load: async () => ({
+          ...(await loadSSRModule()),
+          render: (async () => {
+            throw new Error("render failed");
+          }) as never,
+        }),
+        fixStacktrace,
+      },
+      assets: devAssets,
+      config: loadConfig(),
+      build: readBuildInfo(rootDir),
+    });
+    const response = await request(app).get("/about");
+
+    expect(response.status).toBe(500);
+    expect(response.text).toBe("Internal Server Error");
+    expect(fixStacktrace).toHaveBeenCalledWith(expect.objectContaining({ message: "render failed" }));
+  });
+
+  it("redirects /content-fragment.js to the source element", async () => {
+    const response = await request(createDevApp()).get("/content-fragment.js");
+    expect(response.headers.location).toBe("/src/content-fragment.ts");
+  });
+});
+
+describe("POST /webhooks/contentstack", () => {
+  const payload = JSON.parse(readFileSync("fixtures/webhooks/entry-publish.json", "utf-8"));
+
+  it("rejects calls without the secret", async () => {
+    const response = await request(app).post("/webhooks/contentstack").send(payload);
+    expect(response.status).toBe(401);
+  });
+
+  it("purges the published entry's fragments", async () => {
+    const purgeEvent = vi.fn();
+    purgeEvents.on("purge", purgeEvent);
+    onTestFinished(() => void purgeEvents.off("purge", purgeEvent));
+    await request(app).get("/about");
+    const purge = await request(app)
+      .post("/webhooks/contentstack")
+      .set("X-Webhook-Secret", "test-webhook-secret")
+      .send(payload);
+    expect(purge.status).toBe(200);
+    expect(purgeEvent).toHaveBeenCalledWith(expect.objectContaining({ surrogateKeys: ["url:/about", ABOUT_UID] }));
+
+    const response = await request(app).get("/about");
+    expect(response.headers["x-cache"]).toBe("MISS");
+  });
+});
@@ -0,0 +1,13 @@
+/**
+ * Setup for the server tests - hands the configuration to the SSR modules
+ *
+ * WHY?
+ * - src/api/config.ts reads the server configuration when it's first
+ *   imported (see provideServerConfig in server/config.ts); the tests import
+ *   src modules directly, so it must be provided before each test file loads
+ * - Same variables as the server the tests boot (test.env in vitest.config.ts)
+ */
+
+import { loadConfig, provideServerConfig } from "../../server/config.js";
+
+provideServerConfig(loadConfig());
@@ -0,0 +1,89 @@
+/**
+ * Global setup for the DOM tests - runs the fragment server
+ *
+ * WHY A SEPARATE PROCESS?
+ * - Hydration needs a server render and a client render of the same app;
+ *   in one process both renderers would share React and React Router,
+ *   which React doesn't support (the client sees the server's context values)
+ * - The DOM tests fetch fragments over HTTP instead, exactly like a host page
+ *
+ * HOW IT WORKS:
+ * - Starts the development server (server/dev.ts) on a free port, compiling
+ *   the app from source - no server build needed
+ * - Same variables as the other tests (test.env in vitest.config.ts), and
+ *   no .env file, so local settings can't change the results
+ *
+ * USAGE:
+ * const serverUrl = inject("fragmentServerUrl");
+ */
+
+import { spawn } from "node:child_process";
+import { createServer, type AddressInfo } from "node:net";
+import { setTimeout as delay } from "node:timers/promises";
+import type { TestProject } from "vitest/node";
+import { PUBLIC_ENV } from "../../vite.config";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    fragmentServerUrl: string;
+  }
+}
+
+/** How long the server may take to compile and start */
+const STARTUP_TIMEOUT = 30_000;
+
+/** Find a port nothing listens on */
+async function getFreePort(): Promise<number> {
+  const server = createServer().listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+/** Wait until the server answers /health */
+async function waitForServer(url: string, exited: () => boolean): Promise<void> {
+  const deadline = Date.now() + STARTUP_TIMEOUT;
+  while (Date.now() < deadline && !exited()) {
+    try {
+      if ((await fetch(new URL("/health", url))).ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await delay(200);
+  }
+  throw new Error(`Fragment server didn't start at ${url}`);
+}
+
+export default async function setup(project: TestProject) {
+  const port = await getFreePort();
+  const url = `http://127.0.0.1:${port}`;
+
+  const env: NodeJS.ProcessEnv = { ...process.env, ...project.config.env, PORT: String(port), DOTENV_CONFIG_PATH: "/dev/null" };
+  // Public variables the tests don't set stay unset (not inherited from .env)
+  for (const name of PUBLIC_ENV) {
+    if (!(name in project.config.env)) delete env[name];
+  }
+
+  const server = spawn(process.execPath, ["--import", "tsx", "server/dev.ts"], {
+    cwd: project.config.root,
+    env,
+    stdio: ["ignore", "ignore", "inherit"],
+  });
+  let exited = false;
+  server.once("exit", () => (exited = true));
+
+  try {
+    await waitForServer(url, () => exited);
+  } catch (error) {
+    server.kill();
+    throw error;
+  }
+  project.provide("fragmentServerUrl", url);
+
+  return async () => {
+    if (exited) return;
+    server.kill();
+    await new Promise((resolve) => server.once("exit", resolve));
+  };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { collectUids, createETag, escapeHtml, getSlugFromUrl, serializeContent } from "../server/utils.js";
+
+describe("getSlugFromUrl", () => {
+  it("drops the query string", () => {
+    expect(getSlugFromUrl("/about?foo=bar")).toBe("/about");
+    expect(getSlugFromUrl("/blog/hello-world?format=json&stream=true")).toBe("/blog/hello-world");
+  });
+
+  it("keeps locale prefixes (resolved later by resolveLocale)", () => {
+    expect(getSlugFromUrl("/fr-fr/a-propos")).toBe("/fr-fr/a-propos");
+  });
+
+  it("falls back to the home page", () => {
+    expect(getSlugFromUrl("/")).toBe("/");
+    expect(getSlugFromUrl("?fragmentId=promo")).toBe("/");
+    expect(getSlugFromUrl("")).toBe("/");
+  });
+});
+
+describe("serializeContent", () => {
+  it("round-trips plain content", () => {
+    const content = { uid: "blt123", title: "Hello", tags: ["a", "b"], nested: { n: 1, ok: true, none: null } };
+    expect(JSON.parse(serializeContent(content))).toEqual(content);
+  });
+
+  it("can't close the script element it's embedded in", () => {
+    const serialized = serializeContent({ html: "</script><script>alert(1)</script>" });
+    expect(serialized).not.toContain("<");
+    expect(serialized).toContain("\\u003c/script>");
+    expect(JSON.parse(serialized)).toEqual({ html: "</script><script>alert(1)</script>" });
+  });
+
+  it("drops values JSON can't represent", () => {
+    const serialized = serializeContent({ title: "Hi", render: () => "x", missing: undefined });
+    expect(JSON.parse(serialized)).toEqual({ title: "Hi" });
+  });
+
+  it("serializes null (no content)", () => {
+    expect(serializeContent(null)).toBe("null");
+  });
+});
+
+describe("escapeHtml", () => {
+  it("escapes text and attribute delimiters", () => {
+    expect(escapeHtml(`/search?q="a"&b=<1>'`)).toBe("/search?q=&quot;a&quot;&amp;b=&lt;1&gt;&#39;");
+  });
+});
+
+describe("createETag", () => {
+  it("is strong, stable and body-specific", () => {
+    expect(createETag("<p>a</p>")).toMatch(/^"[^"]+"$/);
+    expect(createETag("<p>a</p>")).toBe(createETag("<p>a</p>"));
+    expect(createETag("<p>a</p>")).not.toBe(createETag("<p>b</p>"));
+  });
+});
+
+describe("collectUids", () => {
+  it("finds the entry, its references and assets", () => {
+    const uids = collectUids({
+      uid: "blt_page",
+      image: { uid: "blt_asset", url: "/image.png" },
+      related_pages: [{ uid: "blt_other", _content_type_uid: "page" }],
+      blocks: [{ hero: { _metadata: { uid: "cs_block" } } }],
+    });
+    expect(uids).toEqual(expect.arrayContaining(["blt_page", "blt_asset", "blt_other"]));
+  });
+
+  it("returns nothing for missing content", () => {
+    expect(collectUids(null)).toEqual([]);
+  });
+});
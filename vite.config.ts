@@ -13,9 +13,63 @@
  * - Plugin system for React, Tailwind, etc.
  */
 
+import 'dotenv/config';
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
+import { publicConfig } from './plugins/publicConfig';
+import { scopeCss } from './plugins/scopeCss';
+
+/**
+ * Build-time CSS scoping (FRAGMENT_CSS_SCOPE=true)
+ * - Prefixes every CSS rule with the fragment root selector so fragment
+ *   styles can't leak into the host page (see plugins/scopeCss.ts)
+ * - The selector matches the data-fragment-scope attribute the server puts
+ *   on the fragment root (server/fragment.ts)
+ */
+const FRAGMENT_CSS_SCOPE = process.env.FRAGMENT_CSS_SCOPE === 'true' ? '[data-fragment-scope]' : null;
+
+/**
+ * Environment variables compiled into client code (validated and defined
+ * as __PUBLIC_CONFIG__ by plugins/publicConfig.ts)
+ *
+ * WHY AN ALLOW-LIST (not the CONTENTSTACK_ prefix)?
+ * - Everything client code can read ships to every browser
+ * - A prefix would also expose CONTENTSTACK_DELIVERY_TOKEN,
+ *   CONTENTSTACK_PREVIEW_TOKEN, CONTENTSTACK_WEBHOOK_SECRET and any secret
+ *   added later; the server reads those from process.env at runtime
+ *   (see src/api/contentstack.ts), the browser fetches content through
+ *   the server (GET /api/content)
+ */
+export const PUBLIC_ENV = [
+  'CONTENTSTACK_API_KEY',
+  'CONTENTSTACK_ENVIRONMENT',
+  'CONTENTSTACK_REGION',
+  'CONTENTSTACK_PREVIEW',
+  'CONTENTSTACK_PREVIEW_SSR',
+  'CONTENTSTACK_NOT_FOUND_URL',
+  'CONTENTSTACK_LINK_BASE',
+  'CONTENTSTACK_INTERNAL_HOSTS',
+  'CONTENTSTACK_EMBED_ORIGINS',
+  'CONTENTSTACK_LOCALES',
+  'CONTENTSTACK_LOCALE_FALLBACKS',
+];
+
+/**
+ * Public variables in mode "test" (Vitest, and `npm test`'s client build:
+ * `vite build --mode test`)
+ * - Compiled instead of the environment's values, so tests need no stack
+ *   credentials and a local .env can't change the results
+ * - Unlisted ones are unset
+ */
+export const TEST_PUBLIC_ENV: Record<string, string> = {
+  CONTENTSTACK_API_KEY: 'test_api_key',
+  CONTENTSTACK_ENVIRONMENT: 'test',
+  CONTENTSTACK_REGION: 'us',
+  CONTENTSTACK_PREVIEW: 'false',
+  CONTENTSTACK_NOT_FOUND_URL: '/404',
+  CONTENTSTACK_LOCALES: 'en-us,fr-fr',
+};
 
 export default defineConfig({
   plugins: [
@@ -36,21 +90,30 @@ export default defineConfig({
      * - Generates CSS on-the-fly (dev) or at build time (prod)
      */
     tailwindcss(),
+    /**
+     * CSS scoping plugin (opt-in) - rewrites the built CSS files
+     */
+    FRAGMENT_CSS_SCOPE && scopeCss(FRAGMENT_CSS_SCOPE),
+    /**
+     * Public configuration - fails the build when a variable is invalid
+     * - Accessible via __PUBLIC_CONFIG__ (read it through src/api/config.ts)
+     * - Mode "test" compiles TEST_PUBLIC_ENV
+     */
+    publicConfig(PUBLIC_ENV, { test: TEST_PUBLIC_ENV }),
   ],
 
   /**
    * Environment variable prefix
    * 
    * WHAT THIS DOES:
-   * - Exposes env vars prefixed with VITE_ or CONTENTSTACK_ to client code
-   * - Accessible via import.meta.env.CONTENTSTACK_API_KEY
+   * - Exposes env vars prefixed with VITE_ to client code
    * - Other env vars (like PORT) are server-only
    * 
    * WHY PREFIX?
    * - Security: prevents accidentally exposing server secrets
    * - Only explicitly prefixed vars are bundled into client code
    */
-  envPrefix: ['VITE_', 'CONTENTSTACK_'],
+  envPrefix: ['VITE_'],
 
   /**
    * Base URL for assets
@@ -80,11 +143,13 @@ export default defineConfig({
 
     rollupOptions: {
       /**
-       * Entry point for client build
-       * - This is the file that starts the React app
+       * Entry points for client build
+       * - entry-client.tsx: Starts the React app (hydrates fragments)
+       * - content-fragment.ts: <content-fragment> custom element for hosts
+       *   that embed fragments from the browser (no React, loads the app on demand)
        * - Vite bundles everything starting from here
        */
-      input: 'src/entry-client.tsx',
+      input: ['src/entry-client.tsx', 'src/content-fragment.ts'],
     },
   },
 
@@ -121,6 +186,7 @@ export default defineConfig({
       'react',
       'react-dom',
       'react-dom/server',
+      'react-dom/static',
       'react-router',
       'react-router-dom',
       '@contentstack/delivery-sdk',
@@ -0,0 +1,71 @@
+/**
+ * Vitest configuration - fragment server tests
+ *
+ * WHAT THIS DOES:
+ * - Reuses vite.config.ts, so tests compile the app exactly like the
+ *   dev server and the build (React, Tailwind, public configuration)
+ * - Pins the environment: content comes from fixtures (fixtures/content),
+ *   never from Contentstack, and a local .env can't change the results
+ *   (Vitest runs in mode "test": the client is compiled with
+ *   TEST_PUBLIC_ENV, see vite.config.ts)
+ *
+ * TESTS (test/):
+ * - *.test.ts: Run in Node (the Express app is booted in-process)
+ * - *.dom.test.ts: Run in jsdom against a fragment server started by
+ *   test/setup/server.ts (hydration)
+ *
+ * NOTE: Server tests read the client build's manifest - `npm test` builds
+ * it first, in mode "test" (pretest).
+ */
+
+import { defineConfig, mergeConfig } from 'vitest/config';
+import viteConfig, { TEST_PUBLIC_ENV } from './vite.config';
+
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      projects: [
+        {
+          extends: true,
+          test: {
+            name: 'server',
+            include: ['test/**/*.test.ts'],
+            exclude: ['test/**/*.dom.test.ts'],
+            environment: 'node',
+            // Hands the server configuration to the SSR modules, like server/index.ts
+            setupFiles: ['./test/setup/config.ts'],
+          },
+        },
+        {
+          extends: true,
+          test: {
+            name: 'dom',
+            include: ['test/**/*.dom.test.ts'],
+            environment: 'jsdom',
+            globalSetup: ['./test/setup/server.ts'],
+            // The first test compiles the client entry and its lazy chunks
+            testTimeout: 20_000,
+          },
+        },
+      ],
+      /**
+       * Server-side variables (process.env)
+       * - The public ones again (for the server test/setup/server.ts starts)
+       * - Fixture content, default cache settings, a known webhook secret
+       */
+      env: {
+        ...TEST_PUBLIC_ENV,
+        FRAGMENT_CONTENT_PROVIDER: 'fixtures',
+        FRAGMENT_FIXTURES_DIR: 'fixtures/content',
+        FRAGMENT_CACHE_TTL: '60',
+        FRAGMENT_CACHE_SWR: '300',
+        FRAGMENT_STATE_FORMAT: 'script',
+        FRAGMENT_ISOLATION: 'none',
+        ASSET_BASE_URL: '',
+        CONTENTSTACK_PREVIEW: 'false',
+        CONTENTSTACK_WEBHOOK_SECRET: 'test-webhook-secret',
+      },
+    },
+  })
+);